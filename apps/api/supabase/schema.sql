@@ -1,17 +1,68 @@
+-- Run types.sql first, in its own transaction; the enums below depend on it.
 create extension if not exists pgcrypto;
 
 drop table if exists public.camps cascade;
 
-do $$
-begin
-  create type public.user_role as enum ('admin', 'member');
-exception
-  when duplicate_object then null;
-end $$;
-
 create table if not exists public.users (
   id uuid primary key references auth.users(id) on delete cascade,
   role public.user_role not null,
+  suspended_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.users
+  add column if not exists suspended_at timestamptz;
+
+create table if not exists public.class_categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.instructors (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid unique references public.users(id) on delete set null,
+  name text not null,
+  bio text,
+  contact_email text,
+  contact_phone text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.venues (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  room text,
+  address text not null,
+  max_occupancy integer not null check (max_occupancy > 0),
+  accessibility_notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.class_series (
+  id uuid primary key default gen_random_uuid(),
+  created_by uuid not null references public.users(id) on delete cascade,
+  title text not null,
+  description text not null,
+  instructor_name text not null,
+  instructor_id uuid references public.instructors(id) on delete set null,
+  location text not null,
+  venue_id uuid references public.venues(id) on delete set null,
+  capacity integer not null check (capacity > 0),
+  duration_minutes integer not null default 60 check (duration_minutes between 15 and 720),
+  category_id uuid references public.class_categories(id) on delete set null,
+  tags text[] not null default '{}',
+  skill_level public.skill_level not null default 'all_levels',
+  min_age integer check (min_age between 0 and 120),
+  max_age integer check (max_age between 0 and 120),
+  frequency text not null check (frequency in ('weekly', 'biweekly')),
+  first_starts_at timestamptz not null,
+  session_count integer not null check (session_count between 1 and 52),
+  skip_dates date[] not null default '{}',
+  time_zone text not null default 'UTC',
   created_at timestamptz not null default now()
 );
 
@@ -21,12 +72,80 @@ create table if not exists public.community_classes (
   title text not null,
   description text not null,
   instructor_name text not null,
+  instructor_id uuid references public.instructors(id) on delete set null,
   location text not null,
+  venue_id uuid references public.venues(id) on delete set null,
   starts_at timestamptz not null,
+  duration_minutes integer not null default 60 check (duration_minutes between 15 and 720),
   capacity integer not null check (capacity > 0),
-  created_at timestamptz not null default now()
+  category_id uuid references public.class_categories(id) on delete set null,
+  tags text[] not null default '{}',
+  skill_level public.skill_level not null default 'all_levels',
+  min_age integer check (min_age between 0 and 120),
+  max_age integer check (max_age between 0 and 120),
+  cancelled_at timestamptz,
+  revision integer not null default 0,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  constraint community_classes_age_range_check
+    check (min_age is null or max_age is null or min_age <= max_age)
 );
 
+alter table public.community_classes
+  add column if not exists cancelled_at timestamptz;
+
+alter table public.class_series
+  add column if not exists duration_minutes integer not null default 60
+    check (duration_minutes between 15 and 720);
+
+alter table public.community_classes
+  add column if not exists duration_minutes integer not null default 60
+    check (duration_minutes between 15 and 720);
+
+alter table public.community_classes
+  add column if not exists revision integer not null default 0;
+
+alter table public.community_classes
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.community_classes
+  add column if not exists series_id uuid references public.class_series(id) on delete cascade;
+
+alter table public.class_series
+  add column if not exists category_id uuid references public.class_categories(id) on delete set null,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists skill_level public.skill_level not null default 'all_levels',
+  add column if not exists min_age integer check (min_age between 0 and 120),
+  add column if not exists max_age integer check (max_age between 0 and 120);
+
+alter table public.community_classes
+  add column if not exists category_id uuid references public.class_categories(id) on delete set null,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists skill_level public.skill_level not null default 'all_levels',
+  add column if not exists min_age integer check (min_age between 0 and 120),
+  add column if not exists max_age integer check (max_age between 0 and 120);
+
+alter table public.class_series
+  add column if not exists instructor_id uuid references public.instructors(id) on delete set null;
+
+alter table public.community_classes
+  add column if not exists instructor_id uuid references public.instructors(id) on delete set null;
+
+alter table public.class_series
+  add column if not exists venue_id uuid references public.venues(id) on delete set null;
+
+alter table public.community_classes
+  add column if not exists venue_id uuid references public.venues(id) on delete set null;
+
+do $$
+begin
+  alter table public.community_classes
+    add constraint community_classes_age_range_check
+    check (min_age is null or max_age is null or min_age <= max_age);
+exception
+  when duplicate_object then null;
+end $$;
+
 create table if not exists public.class_registrations (
   id uuid primary key default gen_random_uuid(),
   class_id uuid not null references public.community_classes(id) on delete cascade,
@@ -35,15 +154,995 @@ create table if not exists public.class_registrations (
   unique (class_id, member_id)
 );
 
+create table if not exists public.class_waitlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  class_id uuid not null references public.community_classes(id) on delete cascade,
+  member_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (class_id, member_id)
+);
+
+create table if not exists public.class_attendance (
+  id uuid primary key default gen_random_uuid(),
+  class_id uuid not null references public.community_classes(id) on delete cascade,
+  member_id uuid not null references public.users(id) on delete cascade,
+  status public.attendance_status not null,
+  marked_by uuid references public.users(id) on delete set null,
+  marked_at timestamptz not null default now(),
+  unique (class_id, member_id)
+);
+
+create table if not exists public.calendar_feed_tokens (
+  member_id uuid primary key references public.users(id) on delete cascade,
+  token_hash text not null unique,
+  created_at timestamptz not null default now()
+);
+
+-- No foreign keys: entries must outlive the users and classes they describe.
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  actor_id uuid,
+  actor_role public.user_role,
+  action text not null,
+  target_type text not null,
+  target_id text,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.ai_conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  title text not null check (char_length(title) between 1 and 120),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.ai_messages (
+  id bigint generated always as identity primary key,
+  conversation_id uuid not null references public.ai_conversations(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  citations jsonb not null default '[]'::jsonb,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+-- One row per model call. Deleting an account keeps its rows (without the user) so spend totals stay accurate.
+create table if not exists public.ai_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid references public.users(id) on delete set null,
+  user_role public.user_role not null,
+  feature text not null,
+  provider text not null,
+  model text not null,
+  status text not null check (status in ('succeeded', 'failed', 'cancelled')),
+  prompt_tokens integer not null default 0 check (prompt_tokens >= 0),
+  completion_tokens integer not null default 0 check (completion_tokens >= 0),
+  usage_estimated boolean not null default false,
+  latency_ms integer not null check (latency_ms >= 0),
+  created_at timestamptz not null default now()
+);
+
+-- AI exchanges that moderation refused or redacted, queued for admin review.
+create table if not exists public.ai_moderation_flags (
+  id bigint generated always as identity primary key,
+  user_id uuid references public.users(id) on delete set null,
+  user_role public.user_role not null,
+  conversation_id uuid references public.ai_conversations(id) on delete set null,
+  stage text not null check (stage in ('input', 'output')),
+  action text not null check (action in ('refused', 'redacted')),
+  reasons text[] not null default '{}',
+  question text not null,
+  answer text,
+  reviewed_at timestamptz,
+  reviewed_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Which emails a member wants; a member without a row gets every notification.
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  registration_confirmations boolean not null default true,
+  class_changes boolean not null default true,
+  class_reminders boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+-- Emails are queued in the same transaction as the change that causes them and delivered by the API.
+create table if not exists public.notification_outbox (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.users(id) on delete cascade,
+  kind text not null check (
+    kind in ('registration_confirmed', 'class_changed', 'class_cancelled', 'class_reminder')
+  ),
+  class_id uuid references public.community_classes(id) on delete set null,
+  payload jsonb not null default '{}',
+  dedupe_key text unique,
+  status text not null default 'pending' check (
+    status in ('pending', 'sending', 'sent', 'failed', 'skipped')
+  ),
+  attempts integer not null default 0 check (attempts >= 0),
+  next_attempt_at timestamptz not null default now(),
+  locked_until timestamptz,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
 create index if not exists community_classes_created_idx
   on public.community_classes (created_at desc);
 
+create index if not exists community_classes_starts_idx
+  on public.community_classes (starts_at asc, id asc);
+
+create index if not exists class_registrations_class_idx
+  on public.class_registrations (class_id);
+
+create index if not exists community_classes_location_starts_idx
+  on public.community_classes (lower(location), starts_at);
+
+create index if not exists community_classes_category_idx
+  on public.community_classes (category_id, starts_at);
+
+-- "Eastside Library" / "Room B" and "eastside library" / "room b" are the same room.
+create unique index if not exists venues_name_room_idx
+  on public.venues (lower(name), lower(coalesce(room, '')));
+
+create index if not exists community_classes_venue_idx
+  on public.community_classes (venue_id, starts_at);
+
+create index if not exists community_classes_instructor_idx
+  on public.community_classes (instructor_id, starts_at);
+
+create index if not exists community_classes_tags_idx
+  on public.community_classes using gin (tags);
+
+create index if not exists community_classes_series_idx
+  on public.community_classes (series_id, starts_at asc);
+
 create index if not exists class_registrations_member_idx
   on public.class_registrations (member_id, created_at desc);
 
+create index if not exists class_waitlist_entries_queue_idx
+  on public.class_waitlist_entries (class_id, created_at asc, id asc);
+
+create index if not exists class_waitlist_entries_member_idx
+  on public.class_waitlist_entries (member_id, created_at desc);
+
+create index if not exists audit_log_created_idx
+  on public.audit_log (created_at desc);
+
+create index if not exists audit_log_actor_idx
+  on public.audit_log (actor_id, id desc);
+
+create index if not exists audit_log_target_idx
+  on public.audit_log (target_type, target_id, id desc);
+
+create index if not exists audit_log_action_idx
+  on public.audit_log (action, id desc);
+
+create index if not exists ai_conversations_user_idx
+  on public.ai_conversations (user_id, updated_at desc);
+
+create index if not exists ai_messages_conversation_idx
+  on public.ai_messages (conversation_id, id);
+
+create index if not exists ai_usage_user_idx
+  on public.ai_usage (user_id, created_at desc);
+
+create index if not exists ai_usage_created_idx
+  on public.ai_usage (created_at desc);
+
+create index if not exists ai_moderation_flags_open_idx
+  on public.ai_moderation_flags (id desc)
+  where reviewed_at is null;
+
+create index if not exists notification_outbox_due_idx
+  on public.notification_outbox (next_attempt_at, id)
+  where status in ('pending', 'sending');
+
+create index if not exists notification_outbox_class_idx
+  on public.notification_outbox (class_id)
+  where status = 'pending';
+
+-- Moves the earliest waitlisted members into open seats, first come first served.
+create or replace function public.promote_waitlist(target_class_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  class_capacity integer;
+  seats_taken integer;
+  next_entry public.class_waitlist_entries%rowtype;
+begin
+  -- Once a class has started, nobody is promoted into it: a late seat is no use to anyone.
+  select capacity
+  into class_capacity
+  from public.community_classes
+  where id = target_class_id
+    and cancelled_at is null
+    and starts_at > now()
+  for update;
+
+  if class_capacity is null then
+    return;
+  end if;
+
+  select count(*)
+  into seats_taken
+  from public.class_registrations
+  where class_id = target_class_id;
+
+  while seats_taken < class_capacity loop
+    select *
+    into next_entry
+    from public.class_waitlist_entries
+    where class_id = target_class_id
+    order by created_at asc, id asc
+    limit 1;
+
+    exit when not found;
+
+    delete from public.class_waitlist_entries
+    where id = next_entry.id;
+
+    insert into public.class_registrations (class_id, member_id)
+    values (next_entry.class_id, next_entry.member_id)
+    on conflict (class_id, member_id) do nothing;
+
+    if found then
+      seats_taken := seats_taken + 1;
+    end if;
+  end loop;
+end;
+$$;
+
+-- Registers a member in one locked step so concurrent requests cannot overbook a class.
+create or replace function public.register_for_class(target_class_id uuid, target_member_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  class_capacity integer;
+  class_cancelled_at timestamptz;
+  seats_taken integer;
+begin
+  select capacity, cancelled_at
+  into class_capacity, class_cancelled_at
+  from public.community_classes
+  where id = target_class_id
+  for update;
+
+  if not found then
+    return 'class_not_found';
+  end if;
+
+  if class_cancelled_at is not null then
+    return 'class_cancelled';
+  end if;
+
+  if exists (
+    select 1
+    from public.class_registrations
+    where class_id = target_class_id
+      and member_id = target_member_id
+  ) then
+    return 'already_registered';
+  end if;
+
+  select count(*)
+  into seats_taken
+  from public.class_registrations
+  where class_id = target_class_id;
+
+  if seats_taken >= class_capacity then
+    return 'class_full';
+  end if;
+
+  insert into public.class_registrations (class_id, member_id)
+  values (target_class_id, target_member_id)
+  on conflict (class_id, member_id) do nothing;
+
+  if not found then
+    return 'already_registered';
+  end if;
+
+  return 'registered';
+end;
+$$;
+
+-- Registers a member for every upcoming session of a series, reporting each session's outcome.
+create or replace function public.register_for_series(target_series_id uuid, target_member_id uuid)
+returns table (session_id uuid, outcome text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  session_record record;
+begin
+  for session_record in
+    select c.id
+    from public.community_classes c
+    where c.series_id = target_series_id
+      and c.cancelled_at is null
+      and c.starts_at > now()
+    order by c.starts_at asc
+  loop
+    session_id := session_record.id;
+    outcome := public.register_for_class(session_record.id, target_member_id);
+    return next;
+  end loop;
+end;
+$$;
+
+-- Filters, counts and pages classes in the database. Returns ids in listing order plus the
+-- per-class counters; callers load the class rows themselves.
+drop function if exists public.search_classes(
+  uuid, text, text, timestamptz, timestamptz, boolean, boolean, boolean, timestamptz, uuid, integer
+);
+drop function if exists public.search_classes(
+  uuid, text, text, timestamptz, timestamptz, uuid, text[], public.skill_level, integer,
+  boolean, boolean, boolean, timestamptz, uuid, integer
+);
+
+create or replace function public.search_classes(
+  viewer_id uuid default null,
+  search_text text default null,
+  location_filter text default null,
+  starts_after timestamptz default null,
+  starts_before timestamptz default null,
+  category_filter uuid default null,
+  tag_filter text[] default null,
+  skill_level_filter public.skill_level default null,
+  age_filter integer default null,
+  instructor_filter uuid default null,
+  only_open boolean default false,
+  only_mine boolean default false,
+  include_cancelled boolean default false,
+  cursor_starts_at timestamptz default null,
+  cursor_id uuid default null,
+  page_size integer default 20
+)
+returns table (
+  class_id uuid,
+  starts_at timestamptz,
+  registration_count integer,
+  waitlist_count integer,
+  is_registered boolean,
+  waitlist_position integer,
+  series_position integer,
+  series_length integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with patterns as (
+    select
+      '%' || replace(replace(replace(search_text, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+        as search_pattern,
+      '%' || replace(replace(replace(location_filter, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+        as location_pattern
+  ),
+  stats as (
+    select
+      c.id,
+      c.starts_at,
+      c.capacity,
+      c.cancelled_at,
+      (select count(*) from public.class_registrations r where r.class_id = c.id)::integer
+        as registration_count,
+      (select count(*) from public.class_waitlist_entries w where w.class_id = c.id)::integer
+        as waitlist_count,
+      exists (
+        select 1
+        from public.class_registrations r
+        where r.class_id = c.id
+          and r.member_id = viewer_id
+      ) as is_registered,
+      (
+        select count(*)
+        from public.class_waitlist_entries w
+        join public.class_waitlist_entries mine
+          on mine.class_id = w.class_id
+         and mine.member_id = viewer_id
+        where w.class_id = c.id
+          and (w.created_at, w.id) <= (mine.created_at, mine.id)
+      )::integer as waitlist_position,
+      (
+        select count(*)
+        from public.community_classes sibling
+        where sibling.series_id = c.series_id
+          and (sibling.starts_at, sibling.id) <= (c.starts_at, c.id)
+      )::integer as series_position,
+      (
+        select count(*)
+        from public.community_classes sibling
+        where sibling.series_id = c.series_id
+      )::integer as series_length
+    from public.community_classes c
+    cross join patterns p
+    where (
+        search_text is null
+        or c.title ilike p.search_pattern
+        or c.description ilike p.search_pattern
+        or c.instructor_name ilike p.search_pattern
+      )
+      and (location_filter is null or c.location ilike p.location_pattern)
+      and (category_filter is null or c.category_id = category_filter)
+      and (tag_filter is null or c.tags && tag_filter)
+      and (skill_level_filter is null or c.skill_level = skill_level_filter)
+      and (
+        age_filter is null
+        or (
+          (c.min_age is null or c.min_age <= age_filter)
+          and (c.max_age is null or c.max_age >= age_filter)
+        )
+      )
+      and (instructor_filter is null or c.instructor_id = instructor_filter)
+      and (starts_after is null or c.starts_at >= starts_after)
+      and (starts_before is null or c.starts_at < starts_before)
+      and (
+        cursor_starts_at is null
+        or (c.starts_at, c.id) > (cursor_starts_at, cursor_id)
+      )
+  )
+  select
+    s.id,
+    s.starts_at,
+    s.registration_count,
+    s.waitlist_count,
+    s.is_registered,
+    nullif(s.waitlist_position, 0),
+    nullif(s.series_position, 0),
+    nullif(s.series_length, 0)
+  from stats s
+  where (include_cancelled or s.cancelled_at is null or s.is_registered)
+    and (not only_open or (s.cancelled_at is null and s.registration_count < s.capacity))
+    and (not only_mine or s.is_registered or s.waitlist_position > 0)
+  order by s.starts_at asc, s.id asc
+  -- 100 rows per page plus the extra row the API fetches to know whether another page exists.
+  limit least(greatest(page_size, 1), 101);
+$$;
+
+-- Lists accounts with their auth emails for the admin Users panel.
+create or replace function public.search_users(
+  search_text text default null,
+  role_filter public.user_role default null,
+  only_suspended boolean default null,
+  page_offset integer default 0,
+  page_size integer default 25
+)
+returns table (
+  user_id uuid,
+  email text,
+  role public.user_role,
+  created_at timestamptz,
+  suspended_at timestamptz,
+  last_sign_in_at timestamptz,
+  total_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    u.id,
+    a.email::text,
+    u.role,
+    u.created_at,
+    u.suspended_at,
+    a.last_sign_in_at,
+    (count(*) over ())::integer
+  from public.users u
+  join auth.users a on a.id = u.id
+  where (
+      search_text is null
+      or a.email ilike
+        '%' || replace(replace(replace(search_text, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (role_filter is null or u.role = role_filter)
+    and (only_suspended is null or (u.suspended_at is not null) = only_suspended)
+  order by lower(a.email) asc, u.id asc
+  offset greatest(page_offset, 0)
+  limit least(greatest(page_size, 1), 100);
+$$;
+
+-- Token totals behind the AI quotas. The API passes the window starts so it owns the calendar rules.
+create or replace function public.ai_usage_totals(
+  target_user_id uuid,
+  day_start timestamptz,
+  month_start timestamptz
+)
+returns table (
+  day_tokens bigint,
+  month_tokens bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce(
+      sum(u.prompt_tokens + u.completion_tokens) filter (where u.created_at >= day_start),
+      0
+    )::bigint,
+    coalesce(
+      sum(u.prompt_tokens + u.completion_tokens) filter (where u.created_at >= month_start),
+      0
+    )::bigint
+  from public.ai_usage u
+  where u.user_id = target_user_id
+    and u.created_at >= least(day_start, month_start);
+$$;
+
+-- Per-user AI consumption for the admin usage report, heaviest users first.
+create or replace function public.ai_usage_report(range_start timestamptz, range_end timestamptz)
+returns table (
+  user_id uuid,
+  email text,
+  role public.user_role,
+  requests integer,
+  failed_requests integer,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  average_latency_ms integer,
+  last_used_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    u.user_id,
+    a.email::text,
+    coalesce(p.role, (array_agg(u.user_role order by u.created_at desc))[1]),
+    count(*)::integer,
+    (count(*) filter (where u.status = 'failed'))::integer,
+    sum(u.prompt_tokens)::bigint,
+    sum(u.completion_tokens)::bigint,
+    round(avg(u.latency_ms))::integer,
+    max(u.created_at)
+  from public.ai_usage u
+  left join public.users p on p.id = u.user_id
+  left join auth.users a on a.id = u.user_id
+  where u.created_at >= range_start
+    and u.created_at < range_end
+  group by u.user_id, a.email, p.role
+  order by sum(u.prompt_tokens + u.completion_tokens) desc, u.user_id;
+$$;
+
+-- The class as it reads in an email, kept with the notification so later edits cannot rewrite it.
+create or replace function public.notification_class_details(target public.community_classes)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object(
+    'title', target.title,
+    'starts_at', target.starts_at,
+    'duration_minutes', target.duration_minutes,
+    'location', target.location
+  );
+$$;
+
+-- Queues one email unless the member has switched that kind off; a repeated dedupe key is ignored.
+create or replace function public.enqueue_notification(
+  target_user_id uuid,
+  notification_kind text,
+  target_class_id uuid,
+  notification_payload jsonb,
+  notification_dedupe_key text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  wanted boolean;
+begin
+  select case notification_kind
+      when 'registration_confirmed' then registration_confirmations
+      when 'class_reminder' then class_reminders
+      else class_changes
+    end
+  into wanted
+  from public.notification_preferences
+  where user_id = target_user_id;
+
+  if wanted is false then
+    return;
+  end if;
+
+  insert into public.notification_outbox (user_id, kind, class_id, payload, dedupe_key)
+  values (
+    target_user_id,
+    notification_kind,
+    target_class_id,
+    notification_payload,
+    notification_dedupe_key
+  )
+  on conflict (dedupe_key) do nothing;
+end;
+$$;
+
+-- Members who registered after the reminder window opened were just sent a confirmation instead.
+-- The start time is part of the dedupe key so a rescheduled class gets a fresh reminder.
+create or replace function public.queue_class_reminders(lead_time interval)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  queued integer;
+begin
+  insert into public.notification_outbox (user_id, kind, class_id, payload, dedupe_key)
+  select
+    r.member_id,
+    'class_reminder',
+    c.id,
+    public.notification_class_details(c),
+    format('class_reminder:%s:%s:%s', c.id, r.member_id, extract(epoch from c.starts_at)::bigint)
+  from public.class_registrations r
+  join public.community_classes c on c.id = r.class_id
+  left join public.notification_preferences p on p.user_id = r.member_id
+  where c.cancelled_at is null
+    and c.starts_at > now()
+    and c.starts_at <= now() + lead_time
+    and r.created_at <= c.starts_at - lead_time
+    and coalesce(p.class_reminders, true)
+  on conflict (dedupe_key) do nothing;
+
+  get diagnostics queued = row_count;
+  return queued;
+end;
+$$;
+
+-- Hands due emails to one worker; the lease lets another worker retry rows whose sender died.
+create or replace function public.claim_notifications(batch_size integer, lease interval)
+returns setof public.notification_outbox
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notification_outbox o
+  set status = 'sending',
+      attempts = o.attempts + 1,
+      locked_until = now() + lease
+  where o.id in (
+    select id
+    from public.notification_outbox
+    where (status = 'pending' and next_attempt_at <= now())
+      or (status = 'sending' and locked_until < now())
+    order by next_attempt_at asc, id asc
+    limit batch_size
+    for update skip locked
+  )
+  returning o.*;
+$$;
+
+-- These functions act on behalf of any member, so only the backend's service role may call them.
+revoke execute on function public.promote_waitlist(uuid) from public, anon, authenticated;
+revoke execute on function public.register_for_class(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.register_for_series(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.search_users(
+  text, public.user_role, boolean, integer, integer
+) from public, anon, authenticated;
+revoke execute on function public.search_classes(
+  uuid, text, text, timestamptz, timestamptz, uuid, text[], public.skill_level, integer, uuid,
+  boolean, boolean, boolean, timestamptz, uuid, integer
+) from public, anon, authenticated;
+revoke execute on function public.ai_usage_totals(uuid, timestamptz, timestamptz)
+  from public, anon, authenticated;
+revoke execute on function public.ai_usage_report(timestamptz, timestamptz)
+  from public, anon, authenticated;
+revoke execute on function public.enqueue_notification(uuid, text, uuid, jsonb, text)
+  from public, anon, authenticated;
+revoke execute on function public.queue_class_reminders(interval) from public, anon, authenticated;
+revoke execute on function public.claim_notifications(integer, interval)
+  from public, anon, authenticated;
+grant execute on function public.promote_waitlist(uuid) to service_role;
+grant execute on function public.register_for_class(uuid, uuid) to service_role;
+grant execute on function public.register_for_series(uuid, uuid) to service_role;
+grant execute on function public.search_users(
+  text, public.user_role, boolean, integer, integer
+) to service_role;
+grant execute on function public.search_classes(
+  uuid, text, text, timestamptz, timestamptz, uuid, text[], public.skill_level, integer, uuid,
+  boolean, boolean, boolean, timestamptz, uuid, integer
+) to service_role;
+grant execute on function public.ai_usage_totals(uuid, timestamptz, timestamptz) to service_role;
+grant execute on function public.ai_usage_report(timestamptz, timestamptz) to service_role;
+grant execute on function public.enqueue_notification(uuid, text, uuid, jsonb, text) to service_role;
+grant execute on function public.queue_class_reminders(interval) to service_role;
+grant execute on function public.claim_notifications(integer, interval) to service_role;
+
+create or replace function public.promote_waitlist_after_registration_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.promote_waitlist(old.class_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists class_registrations_promote_waitlist on public.class_registrations;
+create trigger class_registrations_promote_waitlist
+  after delete on public.class_registrations
+  for each row
+  execute function public.promote_waitlist_after_registration_delete();
+
+create or replace function public.promote_waitlist_after_capacity_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.capacity > old.capacity then
+    perform public.promote_waitlist(new.id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists community_classes_promote_waitlist on public.community_classes;
+create trigger community_classes_promote_waitlist
+  after update of capacity on public.community_classes
+  for each row
+  execute function public.promote_waitlist_after_capacity_change();
+
+-- Capacity edits run under the same row lock as registrations, so this check cannot race them.
+create or replace function public.guard_capacity_above_registrations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  seats_taken integer;
+begin
+  select count(*)
+  into seats_taken
+  from public.class_registrations
+  where class_id = new.id;
+
+  if new.capacity < seats_taken then
+    raise exception 'Capacity % is below the % current registrations.', new.capacity, seats_taken
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists community_classes_guard_capacity on public.community_classes;
+create trigger community_classes_guard_capacity
+  before update of capacity on public.community_classes
+  for each row
+  when (new.capacity < old.capacity)
+  execute function public.guard_capacity_above_registrations();
+
+create or replace function public.guard_last_admin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  other_admins integer;
+begin
+  -- Lock every admin row so two concurrent demotions cannot each count the other as remaining.
+  perform 1
+  from public.users
+  where role = 'admin'
+  for update;
+
+  select count(*)
+  into other_admins
+  from public.users
+  where role = 'admin'
+    and suspended_at is null
+    and id <> old.id;
+
+  if other_admins = 0 then
+    raise exception 'At least one active admin is required.'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists users_guard_last_admin on public.users;
+create trigger users_guard_last_admin
+  before update of role, suspended_at on public.users
+  for each row
+  when (
+    old.role = 'admin'
+    and old.suspended_at is null
+    and (new.role <> 'admin' or new.suspended_at is not null)
+  )
+  execute function public.guard_last_admin();
+
+-- Calendar apps only refetch an event when its SEQUENCE grows, so schedule edits bump the revision.
+create or replace function public.touch_community_class()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+
+  if new.starts_at is distinct from old.starts_at
+    or new.duration_minutes is distinct from old.duration_minutes
+    or new.location is distinct from old.location
+    or new.cancelled_at is distinct from old.cancelled_at then
+    new.revision := old.revision + 1;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists community_classes_touch on public.community_classes;
+create trigger community_classes_touch
+  before update on public.community_classes
+  for each row
+  execute function public.touch_community_class();
+
+create or replace function public.notify_registration_confirmed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Waitlist promotions insert here too, so promoted members hear about their seat.
+  perform public.enqueue_notification(
+    new.member_id,
+    'registration_confirmed',
+    new.class_id,
+    public.notification_class_details(c)
+  )
+  from public.community_classes c
+  where c.id = new.class_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists class_registrations_notify on public.class_registrations;
+create trigger class_registrations_notify
+  after insert on public.class_registrations
+  for each row
+  execute function public.notify_registration_confirmed();
+
+-- Registered members hear about cancellations and about changes to when, where or what the class is.
+create or replace function public.notify_class_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  notification_kind text;
+  notification_payload jsonb;
+begin
+  if tg_op = 'DELETE' then
+    if old.cancelled_at is not null or old.starts_at <= now() then
+      return old;
+    end if;
+
+    notification_kind := 'class_cancelled';
+    notification_payload := public.notification_class_details(old);
+  else
+    if greatest(old.starts_at, new.starts_at) <= now() then
+      return null;
+    end if;
+
+    if old.cancelled_at is null and new.cancelled_at is not null then
+      notification_kind := 'class_cancelled';
+    elsif new.cancelled_at is null and (
+      new.title is distinct from old.title
+      or new.starts_at is distinct from old.starts_at
+      or new.duration_minutes is distinct from old.duration_minutes
+      or new.location is distinct from old.location
+    ) then
+      notification_kind := 'class_changed';
+    else
+      return null;
+    end if;
+
+    notification_payload := public.notification_class_details(new)
+      || jsonb_build_object('previous', public.notification_class_details(old));
+  end if;
+
+  -- A queued reminder still names the old start time, or a class that no longer runs.
+  if notification_kind = 'class_cancelled' or old.starts_at is distinct from new.starts_at then
+    update public.notification_outbox
+    set status = 'skipped',
+        last_error = 'Class changed before the reminder was sent.'
+    where class_id = old.id
+      and kind = 'class_reminder'
+      and status = 'pending';
+  end if;
+
+  perform public.enqueue_notification(r.member_id, notification_kind, old.id, notification_payload)
+  from public.class_registrations r
+  where r.class_id = old.id;
+
+  return case when tg_op = 'DELETE' then old else null end;
+end;
+$$;
+
+drop trigger if exists community_classes_notify_update on public.community_classes;
+create trigger community_classes_notify_update
+  after update on public.community_classes
+  for each row
+  execute function public.notify_class_changed();
+
+-- Runs before the delete so the registrations are still there to notify.
+drop trigger if exists community_classes_notify_delete on public.community_classes;
+create trigger community_classes_notify_delete
+  before delete on public.community_classes
+  for each row
+  execute function public.notify_class_changed();
+
+create or replace function public.reject_audit_log_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'The audit log is append-only.'
+    using errcode = 'insufficient_privilege';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row
+  execute function public.reject_audit_log_change();
+
+drop trigger if exists audit_log_no_truncate on public.audit_log;
+create trigger audit_log_no_truncate
+  before truncate on public.audit_log
+  for each statement
+  execute function public.reject_audit_log_change();
+
 alter table public.users enable row level security;
+alter table public.class_categories enable row level security;
+alter table public.instructors enable row level security;
+alter table public.venues enable row level security;
+alter table public.class_series enable row level security;
 alter table public.community_classes enable row level security;
 alter table public.class_registrations enable row level security;
+alter table public.class_waitlist_entries enable row level security;
+alter table public.class_attendance enable row level security;
+alter table public.calendar_feed_tokens enable row level security;
+alter table public.audit_log enable row level security;
+alter table public.ai_conversations enable row level security;
+alter table public.ai_messages enable row level security;
+alter table public.ai_usage enable row level security;
+alter table public.ai_moderation_flags enable row level security;
+alter table public.notification_preferences enable row level security;
+alter table public.notification_outbox enable row level security;
 
 drop policy if exists "users_can_read_own_user_row" on public.users;
 create policy "users_can_read_own_user_row"
@@ -57,6 +1156,122 @@ create policy "users_can_insert_own_user_row"
   for insert
   with check (auth.uid() = id);
 
+drop policy if exists "authenticated_users_can_read_categories" on public.class_categories;
+create policy "authenticated_users_can_read_categories"
+  on public.class_categories
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists "admins_can_manage_categories" on public.class_categories;
+create policy "admins_can_manage_categories"
+  on public.class_categories
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  );
+
+drop policy if exists "authenticated_users_can_read_instructors" on public.instructors;
+create policy "authenticated_users_can_read_instructors"
+  on public.instructors
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists "admins_can_manage_instructors" on public.instructors;
+create policy "admins_can_manage_instructors"
+  on public.instructors
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  );
+
+drop policy if exists "instructors_can_update_own_profile" on public.instructors;
+create policy "instructors_can_update_own_profile"
+  on public.instructors
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "authenticated_users_can_read_venues" on public.venues;
+create policy "authenticated_users_can_read_venues"
+  on public.venues
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists "admins_can_manage_venues" on public.venues;
+create policy "admins_can_manage_venues"
+  on public.venues
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  );
+
+drop policy if exists "authenticated_users_can_read_class_series" on public.class_series;
+create policy "authenticated_users_can_read_class_series"
+  on public.class_series
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists "admins_can_insert_class_series" on public.class_series;
+create policy "admins_can_insert_class_series"
+  on public.class_series
+  for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  );
+
 drop policy if exists "authenticated_users_can_read_classes" on public.community_classes;
 create policy "authenticated_users_can_read_classes"
   on public.community_classes
@@ -78,6 +1293,34 @@ create policy "admins_can_insert_classes"
     )
   );
 
+drop policy if exists "admins_can_update_classes" on public.community_classes;
+create policy "admins_can_update_classes"
+  on public.community_classes
+  for update
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  );
+
+drop policy if exists "admins_can_delete_classes" on public.community_classes;
+create policy "admins_can_delete_classes"
+  on public.community_classes
+  for delete
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  );
+
 drop policy if exists "members_can_read_own_registrations" on public.class_registrations;
 create policy "members_can_read_own_registrations"
   on public.class_registrations
@@ -85,6 +1328,21 @@ create policy "members_can_read_own_registrations"
   to authenticated
   using (member_id = auth.uid());
 
+drop policy if exists "instructors_can_read_their_class_registrations" on public.class_registrations;
+create policy "instructors_can_read_their_class_registrations"
+  on public.class_registrations
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.community_classes c
+      join public.instructors i on i.id = c.instructor_id
+      where c.id = class_registrations.class_id
+        and i.user_id = auth.uid()
+    )
+  );
+
 drop policy if exists "members_can_register_once_per_class" on public.class_registrations;
 create policy "members_can_register_once_per_class"
   on public.class_registrations
@@ -100,6 +1358,113 @@ create policy "members_can_register_once_per_class"
     )
   );
 
+-- No delete policy for members: cancelling goes through DELETE /api/member/registrations/:classId,
+-- which enforces the cancellation cutoff and records the audit entry.
+drop policy if exists "members_can_cancel_own_registrations" on public.class_registrations;
+
+drop policy if exists "members_can_read_own_waitlist_entries" on public.class_waitlist_entries;
+create policy "members_can_read_own_waitlist_entries"
+  on public.class_waitlist_entries
+  for select
+  to authenticated
+  using (member_id = auth.uid());
+
+drop policy if exists "members_can_join_waitlist_once_per_class" on public.class_waitlist_entries;
+create policy "members_can_join_waitlist_once_per_class"
+  on public.class_waitlist_entries
+  for insert
+  to authenticated
+  with check (
+    member_id = auth.uid()
+    and exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'member'
+    )
+  );
+
+drop policy if exists "members_can_leave_own_waitlist_entries" on public.class_waitlist_entries;
+create policy "members_can_leave_own_waitlist_entries"
+  on public.class_waitlist_entries
+  for delete
+  to authenticated
+  using (member_id = auth.uid());
+
+drop policy if exists "members_can_read_own_attendance" on public.class_attendance;
+create policy "members_can_read_own_attendance"
+  on public.class_attendance
+  for select
+  to authenticated
+  using (member_id = auth.uid());
+
+drop policy if exists "admins_can_manage_attendance" on public.class_attendance;
+create policy "admins_can_manage_attendance"
+  on public.class_attendance
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.users u
+      where u.id = auth.uid()
+        and u.role = 'admin'
+    )
+  );
+
+drop policy if exists "instructors_can_manage_their_class_attendance" on public.class_attendance;
+create policy "instructors_can_manage_their_class_attendance"
+  on public.class_attendance
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.community_classes c
+      join public.instructors i on i.id = c.instructor_id
+      where c.id = class_attendance.class_id
+        and i.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.community_classes c
+      join public.instructors i on i.id = c.instructor_id
+      where c.id = class_attendance.class_id
+        and i.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "users_can_read_own_ai_conversations" on public.ai_conversations;
+create policy "users_can_read_own_ai_conversations"
+  on public.ai_conversations
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "users_can_read_own_ai_messages" on public.ai_messages;
+create policy "users_can_read_own_ai_messages"
+  on public.ai_messages
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.ai_conversations c
+      where c.id = ai_messages.conversation_id
+        and c.user_id = auth.uid()
+    )
+  );
+
 do $$
 declare
   seed_user_id uuid;
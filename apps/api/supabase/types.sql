@@ -0,0 +1,24 @@
+-- Enum types used by schema.sql. Run this script on its own and let it commit before schema.sql,
+-- because a value added with "alter type ... add value" cannot be used in the same transaction.
+do $$
+begin
+  create type public.user_role as enum ('admin', 'member', 'instructor');
+exception
+  when duplicate_object then null;
+end $$;
+
+alter type public.user_role add value if not exists 'instructor';
+
+do $$
+begin
+  create type public.skill_level as enum ('all_levels', 'beginner', 'intermediate', 'advanced');
+exception
+  when duplicate_object then null;
+end $$;
+
+do $$
+begin
+  create type public.attendance_status as enum ('present', 'absent', 'late');
+exception
+  when duplicate_object then null;
+end $$;
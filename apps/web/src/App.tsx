@@ -1,39 +1,340 @@
-import { FormEvent, useMemo, useState } from "react";
+import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
 
-type AuthMode = "signup" | "login";
-type UserRole = "admin" | "member";
+type AuthMode = "signup" | "login" | "forgot";
+type Recurrence = "none" | "weekly" | "biweekly";
+type UserRole = "admin" | "member" | "instructor";
+type SkillLevel = "all_levels" | "beginner" | "intermediate" | "advanced";
+
+type ClassCategory = {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+};
+
+type Instructor = {
+  id: string;
+  user_id?: string | null;
+  name: string;
+  bio: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+};
+
+type Venue = {
+  id: string;
+  name: string;
+  room: string | null;
+  address: string;
+  max_occupancy: number;
+  accessibility_notes: string | null;
+};
 
 type CommunityClass = {
   id: string;
   title: string;
   description: string;
   instructor_name: string;
+  instructor_id: string | null;
   location: string;
+  venue_id: string | null;
   starts_at: string;
+  duration_minutes: number;
   capacity: number;
+  category_id: string | null;
+  tags: string[];
+  skill_level: SkillLevel;
+  min_age: number | null;
+  max_age: number | null;
+  cancelled_at: string | null;
+  series_id: string | null;
+  revision: number;
+  updated_at: string;
   created_at: string;
   created_by: string;
 };
 
-type MemberClass = CommunityClass & {
+type ClassEditForm = {
+  title: string;
+  description: string;
+  instructorName: string;
+  instructorId: string;
+  location: string;
+  venueId: string;
+  startsAt: string;
+  durationMinutes: string;
+  capacity: string;
+  categoryId: string;
+  tags: string;
+  skillLevel: SkillLevel;
+  minAge: string;
+  maxAge: string;
+};
+
+type ListedClass = CommunityClass & {
   registrationCount: number;
+  waitlistCount: number;
+  seriesPosition: number | null;
+  seriesLength: number | null;
+};
+
+type MemberClass = ListedClass & {
   isRegistered: boolean;
+  waitlistPosition: number | null;
+};
+
+type ClassPage<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+type ClassFilters = {
+  q: string;
+  location: string;
+  from: string;
+  to: string;
+  category: string;
+  instructor: string;
+  tag: string;
+  skillLevel: SkillLevel | "";
+  age: string;
+  openOnly: boolean;
+  mine: boolean;
 };
 
 type AuthResponse = {
   error?: string;
   message?: string;
   accessToken?: string | null;
+  refreshToken?: string | null;
   role?: UserRole;
 };
 
+type StoredSession = {
+  accessToken: string;
+  refreshToken: string;
+};
+
+type AuthRedirect = {
+  session: StoredSession | null;
+  type: string | null;
+  error: string | null;
+};
+
+type ManagedUser = {
+  id: string;
+  email: string | null;
+  role: UserRole;
+  createdAt: string;
+  suspendedAt: string | null;
+  lastSignInAt: string | null;
+};
+
+type UserPage = {
+  items: ManagedUser[];
+  total: number;
+  page: number;
+  limit: number;
+};
+
+type UserFilters = {
+  q: string;
+  role: UserRole | "";
+  status: "" | "active" | "suspended";
+};
+
+type AuditLogEntry = {
+  id: number;
+  actor_id: string | null;
+  actor_role: UserRole | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  before: unknown;
+  after: unknown;
+  created_at: string;
+};
+
+type ClassDraftResponse = {
+  description?: string;
+  tags?: string[];
+  skillLevel?: SkillLevel;
+  model?: string;
+  error?: string;
+  details?: unknown;
+};
+
+type AuditLogPage = {
+  items: AuditLogEntry[];
+  nextCursor: string | null;
+};
+
+type LlmAllowanceWindow = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+};
+
+type LlmAllowance = {
+  role: UserRole;
+  daily: LlmAllowanceWindow;
+  monthly: LlmAllowanceWindow;
+};
+
+type AiUsageTotals = {
+  requests: number;
+  failed_requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  estimated_cost_usd: number | null;
+};
+
+type AiUsageReportRow = AiUsageTotals & {
+  user_id: string | null;
+  email: string | null;
+  role: UserRole;
+  average_latency_ms: number;
+  last_used_at: string;
+};
+
+type AiUsageReport = {
+  from: string;
+  to: string;
+  users: AiUsageReportRow[];
+  totals: AiUsageTotals;
+};
+
+type AuditFilters = {
+  action: string;
+  targetType: "" | "class" | "class_series" | "user";
+  targetId: string;
+  actorId: string;
+  from: string;
+  to: string;
+};
+
+type AttendanceStatus = "present" | "absent" | "late";
+
+type RosterEntry = {
+  memberId: string;
+  email: string | null;
+  registeredAt: string;
+  attendance: AttendanceStatus | null;
+  attendanceMarkedAt: string | null;
+};
+
+type RosterResponse = {
+  error?: string;
+  members?: RosterEntry[];
+};
+
+type ScheduleConflict = {
+  id: string;
+  title: string;
+  location: string;
+  starts_at: string;
+  ends_at: string;
+};
+
+type ConflictResponse = AuthResponse & {
+  code?: string;
+  conflicts?: ScheduleConflict[];
+};
+
+type SeriesRegistrationResponse = ConflictResponse & {
+  skipped?: { classId: string; startsAt: string | null; reason: string }[];
+};
+
+type ClassSeriesResponse = ConflictResponse & {
+  sessions?: CommunityClass[];
+};
+
+type CalendarFeedResponse = {
+  error?: string;
+  active?: boolean;
+  url?: string;
+  webcalUrl?: string;
+  createdAt?: string | null;
+};
+
+type NotificationPreferences = {
+  registrationConfirmations: boolean;
+  classChanges: boolean;
+  classReminders: boolean;
+};
+
+type NotificationPreferencesResponse = Partial<NotificationPreferences> & {
+  error?: string;
+  updatedAt?: string | null;
+};
+
+type ClassCitation = {
+  id: string;
+  title: string;
+  startsAt: string;
+};
+
+type AiConversation = {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type ChatMessage = {
+  id: number;
+  role: "user" | "assistant";
+  content: string;
+  citations: ClassCitation[];
+  model: string | null;
+  created_at: string;
+};
+
+type ConversationDetail = AiConversation & {
+  messages: ChatMessage[];
+};
+
 type LlmResponse = {
   answer?: string;
   model?: string;
+  citations?: ClassCitation[];
+  conversation?: AiConversation;
+  messages?: ChatMessage[];
+  code?: string;
+  refusal?: LlmRefusal;
   error?: string;
   details?: string;
 };
 
+type LlmRefusal = {
+  stage: "input" | "output";
+  categories: string[];
+  message: string;
+};
+
+type ModerationFlag = {
+  id: number;
+  user_id: string | null;
+  user_role: UserRole;
+  conversation_id: string | null;
+  stage: "input" | "output";
+  action: "refused" | "redacted";
+  reasons: string[];
+  question: string;
+  answer: string | null;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  created_at: string;
+};
+
+type ModerationFlagPage = {
+  items: ModerationFlag[];
+  nextCursor: string | null;
+};
+
+type ModerationStatusFilter = "open" | "reviewed" | "all";
+
 const envApiBaseUrl = (import.meta.env.VITE_API_BASE_URL ?? "").trim();
 const apiBaseUrl = (envApiBaseUrl || "http://localhost:4000").replace(/\/$/, "");
 
@@ -41,9 +342,30 @@ function apiUrl(path: string) {
   return `${apiBaseUrl}${path}`;
 }
 
+function retryAfterLabel(response: Response) {
+  const seconds = Number(response.headers.get("Retry-After"));
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    return "";
+  }
+
+  const minutes = Math.ceil(seconds / 60);
+  return seconds < 60
+    ? ` Try again in ${seconds} second${seconds === 1 ? "" : "s"}.`
+    : ` Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
 async function parseApiJson<T>(response: Response): Promise<T> {
   const contentType = response.headers.get("content-type") ?? "";
 
+  if (response.status === 429) {
+    const data = contentType.includes("application/json")
+      ? ((await response.json()) as { error?: string })
+      : {};
+    const message = data.error ?? "Too many requests.";
+    // The lockout message already says when to retry.
+    throw new Error(/try again/i.test(message) ? message : `${message}${retryAfterLabel(response)}`);
+  }
+
   if (contentType.includes("application/json")) {
     return (await response.json()) as T;
   }
@@ -58,8 +380,345 @@ async function parseApiJson<T>(response: Response): Promise<T> {
   throw new Error(`Unexpected response from API (${response.status}).`);
 }
 
+async function* readSseEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+
+    for (const block of blocks) {
+      let event = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data += line.slice(5).trim();
+        }
+      }
+
+      if (data) {
+        yield { event, data: JSON.parse(data) as unknown };
+      }
+    }
+  }
+}
+
+const sessionStorageKey = "community-classes.session";
+
+function readStoredSession(): StoredSession | null {
+  try {
+    const raw = localStorage.getItem(sessionStorageKey);
+    const stored = raw ? (JSON.parse(raw) as Partial<StoredSession>) : null;
+    return stored?.accessToken && stored.refreshToken
+      ? { accessToken: stored.accessToken, refreshToken: stored.refreshToken }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredSession(session: StoredSession | null) {
+  if (session) {
+    localStorage.setItem(sessionStorageKey, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(sessionStorageKey);
+  }
+}
+
+// Supabase email links (confirmation, password recovery) land back here with the session in the hash.
+function readAuthRedirect(): AuthRedirect | null {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const accessToken = params.get("access_token");
+  const refreshToken = params.get("refresh_token");
+  const error = params.get("error_description");
+
+  if (!error && !(accessToken && refreshToken)) {
+    return null;
+  }
+
+  return {
+    session: accessToken && refreshToken ? { accessToken, refreshToken } : null,
+    type: params.get("type"),
+    error
+  };
+}
+
+function toDateTimeLocal(isoValue: string) {
+  const date = new Date(isoValue);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+const userPageSize = 25;
+
+const emptyUserFilters: UserFilters = {
+  q: "",
+  role: "",
+  status: ""
+};
+
+const emptyAuditFilters: AuditFilters = {
+  action: "",
+  targetType: "",
+  targetId: "",
+  actorId: "",
+  from: "",
+  to: ""
+};
+
+const auditActions = [
+  "class.created",
+  "class.series_created",
+  "class.updated",
+  "class.cancelled",
+  "class.deleted",
+  "registration.created",
+  "registration.series_created",
+  "registration.cancelled",
+  "user.role_changed",
+  "user.suspended",
+  "user.reactivated"
+];
+
+const skillLevelLabels: Record<SkillLevel, string> = {
+  all_levels: "All levels",
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced"
+};
+
+function parseTagInput(value: string) {
+  return [
+    ...new Set(
+      value
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter((tag) => tag.length > 0)
+    )
+  ];
+}
+
+function parseAgeRange(minValue: string, maxValue: string) {
+  const minAge = minValue.trim() ? Number(minValue) : null;
+  const maxAge = maxValue.trim() ? Number(maxValue) : null;
+  const isValidAge = (age: number | null) =>
+    age === null || (Number.isInteger(age) && age >= 0 && age <= 120);
+
+  if (!isValidAge(minAge) || !isValidAge(maxAge)) {
+    return null;
+  }
+  if (minAge !== null && maxAge !== null && minAge > maxAge) {
+    return null;
+  }
+  return { minAge, maxAge };
+}
+
+function ageRangeLabel(item: CommunityClass) {
+  if (item.min_age === null && item.max_age === null) {
+    return null;
+  }
+  if (item.max_age === null) {
+    return `Ages ${item.min_age}+`;
+  }
+  if (item.min_age === null) {
+    return `Ages up to ${item.max_age}`;
+  }
+  return `Ages ${item.min_age}–${item.max_age}`;
+}
+
+const emptyClassFilters: ClassFilters = {
+  q: "",
+  location: "",
+  from: "",
+  to: "",
+  category: "",
+  instructor: "",
+  tag: "",
+  skillLevel: "",
+  age: "",
+  openOnly: false,
+  mine: false
+};
+
+function classListPath(basePath: string, filters: ClassFilters, cursor?: string) {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) {
+    params.set("q", filters.q.trim());
+  }
+  if (filters.location.trim()) {
+    params.set("location", filters.location.trim());
+  }
+  if (filters.from) {
+    params.set("from", new Date(`${filters.from}T00:00`).toISOString());
+  }
+  if (filters.to) {
+    // The end date is inclusive in the UI, so ask for everything before the following midnight.
+    const endOfDay = new Date(`${filters.to}T00:00`);
+    endOfDay.setDate(endOfDay.getDate() + 1);
+    params.set("to", endOfDay.toISOString());
+  }
+  if (filters.category) {
+    params.set("category", filters.category);
+  }
+  if (filters.instructor) {
+    params.set("instructor", filters.instructor);
+  }
+  for (const tag of parseTagInput(filters.tag)) {
+    params.append("tag", tag);
+  }
+  if (filters.skillLevel) {
+    params.set("skillLevel", filters.skillLevel);
+  }
+  if (filters.age.trim()) {
+    params.set("age", filters.age.trim());
+  }
+  if (filters.openOnly) {
+    params.set("openOnly", "true");
+  }
+  if (filters.mine) {
+    params.set("mine", "true");
+  }
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+
+  const query = params.toString();
+  return query ? `${basePath}?${query}` : basePath;
+}
+
+function auditLogPath(basePath: string, filters: AuditFilters, cursor?: string) {
+  const params = new URLSearchParams();
+  if (filters.action) {
+    params.set("action", filters.action);
+  }
+  if (filters.targetType) {
+    params.set("targetType", filters.targetType);
+  }
+  if (filters.targetId.trim()) {
+    params.set("targetId", filters.targetId.trim());
+  }
+  if (filters.actorId.trim()) {
+    params.set("actorId", filters.actorId.trim());
+  }
+  if (filters.from) {
+    params.set("from", new Date(`${filters.from}T00:00`).toISOString());
+  }
+  if (filters.to) {
+    const endOfDay = new Date(`${filters.to}T00:00`);
+    endOfDay.setDate(endOfDay.getDate() + 1);
+    params.set("to", endOfDay.toISOString());
+  }
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+
+  const query = params.toString();
+  return query ? `${basePath}?${query}` : basePath;
+}
+
+function seriesLabel(item: ListedClass) {
+  if (item.seriesPosition === null || item.seriesLength === null) {
+    return null;
+  }
+  return `Session ${item.seriesPosition} of ${item.seriesLength}`;
+}
+
+function classEndsAt(item: CommunityClass) {
+  return new Date(Date.parse(item.starts_at) + item.duration_minutes * 60 * 1000);
+}
+
+function formatTimeRange(item: CommunityClass) {
+  const endsAt = classEndsAt(item);
+  return `${new Date(item.starts_at).toLocaleString()} – ${endsAt.toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit"
+  })}`;
+}
+
+function isScheduleConflict(response: Response, data: ConflictResponse) {
+  return response.status === 409 && data.code === "schedule_conflict";
+}
+
+function confirmScheduleConflicts(data: ConflictResponse) {
+  const lines = (data.conflicts ?? []).map(
+    (conflict) =>
+      `• ${conflict.title} (${conflict.location}), ${new Date(conflict.starts_at).toLocaleString()}`
+  );
+  return window.confirm(
+    `${data.error ?? "This overlaps another class."}\n\n${lines.join("\n")}\n\nContinue anyway?`
+  );
+}
+
+function describeSkippedSessions(data: SeriesRegistrationResponse, fallback: string) {
+  const lines = (data.skipped ?? []).map(
+    (session) =>
+      `${session.startsAt ? new Date(session.startsAt).toLocaleString() : "Session"}: ${session.reason}`
+  );
+  return [data.error ?? data.message ?? fallback, ...lines].join("\n");
+}
+
+function venueLabel(venue: Venue) {
+  return venue.room ? `${venue.name} - ${venue.room}` : venue.name;
+}
+
+function aiUsagePath(from: string, to: string) {
+  const params = new URLSearchParams();
+  if (from) {
+    params.set("from", new Date(`${from}T00:00`).toISOString());
+  }
+  if (to) {
+    const endOfDay = new Date(`${to}T00:00`);
+    endOfDay.setDate(endOfDay.getDate() + 1);
+    params.set("to", endOfDay.toISOString());
+  }
+
+  const query = params.toString();
+  return query ? `/api/admin/ai-usage?${query}` : "/api/admin/ai-usage";
+}
+
+function allowanceSummary(allowance: LlmAllowance) {
+  const parts: string[] = [];
+  if (allowance.daily.remaining !== null && allowance.daily.limit !== null) {
+    parts.push(
+      `${allowance.daily.remaining.toLocaleString()} of ${allowance.daily.limit.toLocaleString()} tokens left today`
+    );
+  }
+  if (allowance.monthly.remaining !== null && allowance.monthly.limit !== null) {
+    parts.push(
+      `${allowance.monthly.remaining.toLocaleString()} of ${allowance.monthly.limit.toLocaleString()} this month`
+    );
+  }
+  return parts.length > 0 ? `AI allowance: ${parts.join(" · ")}` : null;
+}
+
+function usageTotalsLabel(totals: AiUsageTotals) {
+  const tokens = totals.prompt_tokens + totals.completion_tokens;
+  const parts = [
+    `${totals.requests} requests (${totals.failed_requests} failed)`,
+    `${tokens.toLocaleString()} tokens (${totals.prompt_tokens.toLocaleString()} prompt, ` +
+      `${totals.completion_tokens.toLocaleString()} completion)`
+  ];
+  if (totals.estimated_cost_usd !== null) {
+    parts.push(`about $${totals.estimated_cost_usd.toFixed(2)}`);
+  }
+  return parts.join(" · ");
+}
+
 function roleTitle(role: UserRole) {
-  return role === "admin" ? "Admin" : "Member";
+  if (role === "admin") {
+    return "Admin";
+  }
+  return role === "instructor" ? "Instructor" : "Member";
 }
 
 export default function App() {
@@ -70,237 +729,2462 @@ export default function App() {
   const [currentRole, setCurrentRole] = useState<UserRole | null>(null);
   const [status, setStatus] = useState("");
   const [authLoading, setAuthLoading] = useState(false);
+  const [restoringSession, setRestoringSession] = useState(
+    () => readStoredSession() !== null || readAuthRedirect() !== null
+  );
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [passwordLoading, setPasswordLoading] = useState(false);
+  const refreshRequest = useRef<Promise<string | null> | null>(null);
+  const sessionRestoreStarted = useRef(false);
+  const llmStreamAbort = useRef<AbortController | null>(null);
 
   const [classesLoading, setClassesLoading] = useState(false);
-  const [adminClasses, setAdminClasses] = useState<CommunityClass[]>([]);
+  const [adminClasses, setAdminClasses] = useState<ListedClass[]>([]);
   const [memberClasses, setMemberClasses] = useState<MemberClass[]>([]);
+  const [instructorClasses, setInstructorClasses] = useState<ListedClass[]>([]);
+  const [classFilters, setClassFilters] = useState<ClassFilters>(emptyClassFilters);
+  const [nextClassCursor, setNextClassCursor] = useState<string | null>(null);
+  const [loadingMoreClasses, setLoadingMoreClasses] = useState(false);
 
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [instructorName, setInstructorName] = useState("");
+  const [instructorId, setInstructorId] = useState("");
   const [location, setLocation] = useState("");
+  const [venueId, setVenueId] = useState("");
   const [startsAt, setStartsAt] = useState("");
   const [capacity, setCapacity] = useState("20");
+  const [durationMinutes, setDurationMinutes] = useState("60");
+  const [categoryId, setCategoryId] = useState("");
+  const [tags, setTags] = useState("");
+  const [skillLevel, setSkillLevel] = useState<SkillLevel>("all_levels");
+  const [draftNotes, setDraftNotes] = useState("");
+  const [draftLoading, setDraftLoading] = useState(false);
+  const [minAge, setMinAge] = useState("");
+  const [maxAge, setMaxAge] = useState("");
+  const [recurrence, setRecurrence] = useState<Recurrence>("none");
+  const [sessionCount, setSessionCount] = useState("6");
+  const [skipDateInput, setSkipDateInput] = useState("");
+  const [skipDates, setSkipDates] = useState<string[]>([]);
   const [createLoading, setCreateLoading] = useState(false);
 
-  const [registeringClassId, setRegisteringClassId] = useState<string | null>(null);
-  const [question, setQuestion] = useState("");
-  const [llmAnswer, setLlmAnswer] = useState("");
-  const [llmModel, setLlmModel] = useState("");
-  const [llmLoading, setLlmLoading] = useState(false);
+  const [categories, setCategories] = useState<ClassCategory[]>([]);
+  const [categoryName, setCategoryName] = useState("");
+  const [categoryDescription, setCategoryDescription] = useState("");
+  const [categoryLoading, setCategoryLoading] = useState(false);
+
+  const [managedUsers, setManagedUsers] = useState<ManagedUser[]>([]);
+  const [userFilters, setUserFilters] = useState<UserFilters>(emptyUserFilters);
+  const [userPage, setUserPage] = useState(1);
+  const [userTotal, setUserTotal] = useState(0);
+  const [usersLoading, setUsersLoading] = useState(false);
+  const [userActionId, setUserActionId] = useState<string | null>(null);
+
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [moderationFlags, setModerationFlags] = useState<ModerationFlag[]>([]);
+  const [moderationStatus, setModerationStatus] = useState<ModerationStatusFilter>("open");
+  const [nextModerationCursor, setNextModerationCursor] = useState<string | null>(null);
+  const [moderationLoading, setModerationLoading] = useState(false);
+  const [auditFilters, setAuditFilters] = useState<AuditFilters>(emptyAuditFilters);
+  const [nextAuditCursor, setNextAuditCursor] = useState<string | null>(null);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [auditExporting, setAuditExporting] = useState(false);
+  const [aiUsageReport, setAiUsageReport] = useState<AiUsageReport | null>(null);
+  const [aiUsageFrom, setAiUsageFrom] = useState("");
+  const [aiUsageTo, setAiUsageTo] = useState("");
+  const [aiUsageLoading, setAiUsageLoading] = useState(false);
+
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [venueName, setVenueName] = useState("");
+  const [venueRoom, setVenueRoom] = useState("");
+  const [venueAddress, setVenueAddress] = useState("");
+  const [venueMaxOccupancy, setVenueMaxOccupancy] = useState("");
+  const [venueAccessibilityNotes, setVenueAccessibilityNotes] = useState("");
+  const [venueLoading, setVenueLoading] = useState(false);
+
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [newInstructorName, setNewInstructorName] = useState("");
+  const [newInstructorEmail, setNewInstructorEmail] = useState("");
+  const [newInstructorPhone, setNewInstructorPhone] = useState("");
+  const [newInstructorBio, setNewInstructorBio] = useState("");
+  const [newInstructorUserId, setNewInstructorUserId] = useState("");
+  const [instructorLoading, setInstructorLoading] = useState(false);
+
+  const [instructorProfile, setInstructorProfile] = useState<Instructor | null>(null);
+  const [profileBio, setProfileBio] = useState("");
+  const [profileEmail, setProfileEmail] = useState("");
+  const [profilePhone, setProfilePhone] = useState("");
+  const [profileLoading, setProfileLoading] = useState(false);
+  const [descriptionDraft, setDescriptionDraft] = useState("");
+
+  const [editingClassId, setEditingClassId] = useState<string | null>(null);
+  const [classEdit, setClassEdit] = useState<ClassEditForm | null>(null);
+  const [adminActionClassId, setAdminActionClassId] = useState<string | null>(null);
+
+  const [rosterClassId, setRosterClassId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [rosterLoading, setRosterLoading] = useState(false);
+  const [checkInMemberId, setCheckInMemberId] = useState<string | null>(null);
+
+  const [calendarFeedActive, setCalendarFeedActive] = useState(false);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState("");
+  const [calendarFeedLoading, setCalendarFeedLoading] = useState(false);
+  const [notifyRegistrations, setNotifyRegistrations] = useState(true);
+  const [notifyClassChanges, setNotifyClassChanges] = useState(true);
+  const [notifyReminders, setNotifyReminders] = useState(true);
+  const [notificationPrefsSaving, setNotificationPrefsSaving] = useState(false);
+
+  const [registeringClassId, setRegisteringClassId] = useState<string | null>(null);
+  const [question, setQuestion] = useState("");
+  const [conversations, setConversations] = useState<AiConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [conversationLoading, setConversationLoading] = useState(false);
+  const [llmAllowance, setLlmAllowance] = useState<LlmAllowance | null>(null);
+  const [llmRefusal, setLlmRefusal] = useState<{ question: string; message: string } | null>(null);
+  const [llmLoading, setLlmLoading] = useState(false);
+  const [streamingAnswer, setStreamingAnswer] = useState("");
+
+  const dashboardTitle = useMemo(() => {
+    if (!currentRole) {
+      return "Community Classes";
+    }
+    return `${roleTitle(currentRole)} Dashboard`;
+  }, [currentRole]);
+
+  const categoryNames = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+
+  const venuesById = useMemo(() => new Map(venues.map((venue) => [venue.id, venue])), [venues]);
+  const selectedVenue = venueId ? venuesById.get(venueId) : undefined;
+
+  async function refreshAccessToken() {
+    // Refresh tokens are single-use, so concurrent 401s share one refresh request.
+    if (!refreshRequest.current) {
+      refreshRequest.current = (async () => {
+        const stored = readStoredSession();
+        if (!stored) {
+          return null;
+        }
+
+        try {
+          const response = await fetch(apiUrl("/api/auth/refresh"), {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json"
+            },
+            body: JSON.stringify({ refreshToken: stored.refreshToken })
+          });
+
+          const data = await parseApiJson<AuthResponse>(response);
+          if (!response.ok || !data.accessToken || !data.refreshToken || !data.role) {
+            clearSession(data.error ?? "Your session has expired. Please log in again.");
+            return null;
+          }
+
+          writeStoredSession({ accessToken: data.accessToken, refreshToken: data.refreshToken });
+          setAccessToken(data.accessToken);
+          setCurrentRole(data.role);
+          return data.accessToken;
+        } finally {
+          refreshRequest.current = null;
+        }
+      })();
+    }
+
+    return refreshRequest.current;
+  }
+
+  async function apiFetch(path: string, init: RequestInit = {}) {
+    const response = await fetch(apiUrl(path), init);
+    const headers = new Headers(init.headers);
+    const sentAuthorization = headers.get("Authorization");
+
+    if (response.status !== 401 || !sentAuthorization) {
+      return response;
+    }
+
+    // Handlers can hold a token from before another request refreshed the session.
+    const stored = readStoredSession();
+    const token =
+      stored && `Bearer ${stored.accessToken}` !== sentAuthorization
+        ? stored.accessToken
+        : await refreshAccessToken();
+
+    if (!token) {
+      return response;
+    }
+
+    headers.set("Authorization", `Bearer ${token}`);
+    return fetch(apiUrl(path), { ...init, headers });
+  }
+
+  async function restoreSession() {
+    const redirect = readAuthRedirect();
+    if (redirect) {
+      // Keep the tokens out of the address bar and browser history.
+      window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}`);
+      if (redirect.error) {
+        setStatus(redirect.error);
+      }
+      if (redirect.session) {
+        writeStoredSession(redirect.session);
+        setPasswordRecovery(redirect.type === "recovery");
+      }
+    }
+
+    const stored = readStoredSession();
+    if (!stored) {
+      setRestoringSession(false);
+      return;
+    }
+
+    try {
+      const response = await apiFetch("/api/auth/me", {
+        headers: {
+          Authorization: `Bearer ${stored.accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      const token = readStoredSession()?.accessToken;
+      if (!response.ok || !data.role || !token) {
+        clearSession(data.error ?? "Your session has expired. Please log in again.");
+        return;
+      }
+
+      setAccessToken(token);
+      setCurrentRole(data.role);
+      if (redirect?.type === "recovery") {
+        setStatus("Choose a new password to finish resetting it.");
+      } else if (redirect?.type === "signup") {
+        setStatus("Email confirmed. Welcome!");
+      }
+      await loadDashboard(data.role, token);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not restore your session.");
+    } finally {
+      setRestoringSession(false);
+    }
+  }
+
+  useEffect(() => {
+    if (sessionRestoreStarted.current) {
+      return;
+    }
+    sessionRestoreStarted.current = true;
+    void restoreSession();
+  }, []);
+
+  async function fetchClassPage<T>(token: string, path: string) {
+    const response = await apiFetch(path, {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    const data = await parseApiJson<ClassPage<T> | AuthResponse>(response);
+    if (!response.ok) {
+      const errorData = data as AuthResponse;
+      throw new Error(errorData.error ?? "Could not load classes.");
+    }
+
+    return data as ClassPage<T>;
+  }
+
+  async function loadAdminClasses(token: string, filters: ClassFilters = classFilters) {
+    setClassesLoading(true);
+    try {
+      const page = await fetchClassPage<ListedClass>(
+        token,
+        classListPath("/api/admin/classes", filters)
+      );
+      setAdminClasses(page.items);
+      setNextClassCursor(page.nextCursor);
+    } finally {
+      setClassesLoading(false);
+    }
+  }
+
+  async function loadMemberClasses(token: string, filters: ClassFilters = classFilters) {
+    setClassesLoading(true);
+    try {
+      const page = await fetchClassPage<MemberClass>(
+        token,
+        classListPath("/api/member/classes", filters)
+      );
+      setMemberClasses(page.items);
+      setNextClassCursor(page.nextCursor);
+    } finally {
+      setClassesLoading(false);
+    }
+  }
+
+  async function loadInstructorClasses(token: string, filters: ClassFilters = classFilters) {
+    setClassesLoading(true);
+    try {
+      const page = await fetchClassPage<ListedClass>(
+        token,
+        classListPath("/api/instructor/classes", filters)
+      );
+      setInstructorClasses(page.items);
+      setNextClassCursor(page.nextCursor);
+    } finally {
+      setClassesLoading(false);
+    }
+  }
+
+  async function handleLoadMoreClasses() {
+    if (!accessToken || !currentRole || !nextClassCursor) {
+      return;
+    }
+
+    setLoadingMoreClasses(true);
+    try {
+      if (currentRole === "admin") {
+        const page = await fetchClassPage<ListedClass>(
+          accessToken,
+          classListPath("/api/admin/classes", classFilters, nextClassCursor)
+        );
+        setAdminClasses((current) => [...current, ...page.items]);
+        setNextClassCursor(page.nextCursor);
+      } else if (currentRole === "instructor") {
+        const page = await fetchClassPage<ListedClass>(
+          accessToken,
+          classListPath("/api/instructor/classes", classFilters, nextClassCursor)
+        );
+        setInstructorClasses((current) => [...current, ...page.items]);
+        setNextClassCursor(page.nextCursor);
+      } else {
+        const page = await fetchClassPage<MemberClass>(
+          accessToken,
+          classListPath("/api/member/classes", classFilters, nextClassCursor)
+        );
+        setMemberClasses((current) => [...current, ...page.items]);
+        setNextClassCursor(page.nextCursor);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not load more classes.");
+    } finally {
+      setLoadingMoreClasses(false);
+    }
+  }
+
+  async function applyClassFilters(filters: ClassFilters) {
+    if (!accessToken || !currentRole) {
+      return;
+    }
+
+    setClassFilters(filters);
+    try {
+      if (currentRole === "admin") {
+        await loadAdminClasses(accessToken, filters);
+      } else if (currentRole === "instructor") {
+        await loadInstructorClasses(accessToken, filters);
+      } else {
+        await loadMemberClasses(accessToken, filters);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not load classes.");
+    }
+  }
+
+  function handleFilterSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void applyClassFilters(classFilters);
+  }
+
+  async function loadCalendarFeed(token: string) {
+    const response = await apiFetch("/api/member/calendar-feed", {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    const data = await parseApiJson<CalendarFeedResponse>(response);
+    if (!response.ok) {
+      throw new Error(data.error ?? "Could not load calendar feed.");
+    }
+
+    setCalendarFeedActive(Boolean(data.active));
+  }
+
+  function applyNotificationPreferences(data: NotificationPreferencesResponse) {
+    setNotifyRegistrations(data.registrationConfirmations ?? true);
+    setNotifyClassChanges(data.classChanges ?? true);
+    setNotifyReminders(data.classReminders ?? true);
+  }
+
+  async function loadNotificationPreferences(token: string) {
+    const response = await apiFetch("/api/member/notification-preferences", {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    const data = await parseApiJson<NotificationPreferencesResponse>(response);
+    if (!response.ok) {
+      throw new Error(data.error ?? "Could not load email settings.");
+    }
+
+    applyNotificationPreferences(data);
+  }
+
+  async function loadCategories(token: string) {
+    const response = await apiFetch("/api/categories", {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    const data = await parseApiJson<ClassCategory[] | AuthResponse>(response);
+    if (!response.ok) {
+      const errorData = data as AuthResponse;
+      throw new Error(errorData.error ?? "Could not load categories.");
+    }
+
+    setCategories(data as ClassCategory[]);
+  }
+
+  async function loadUsers(token: string, filters: UserFilters = userFilters, page = userPage) {
+    const params = new URLSearchParams({ page: String(page), limit: String(userPageSize) });
+    if (filters.q.trim()) {
+      params.set("q", filters.q.trim());
+    }
+    if (filters.role) {
+      params.set("role", filters.role);
+    }
+    if (filters.status) {
+      params.set("status", filters.status);
+    }
+
+    setUsersLoading(true);
+    try {
+      const response = await apiFetch(`/api/admin/users?${params.toString()}`, {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      const data = await parseApiJson<UserPage | AuthResponse>(response);
+      if (!response.ok) {
+        const errorData = data as AuthResponse;
+        throw new Error(errorData.error ?? "Could not load users.");
+      }
+
+      const userPageData = data as UserPage;
+      setManagedUsers(userPageData.items);
+      setUserTotal(userPageData.total);
+      setUserPage(userPageData.page);
+    } finally {
+      setUsersLoading(false);
+    }
+  }
+
+  async function applyUserFilters(filters: UserFilters, page: number) {
+    if (!accessToken || currentRole !== "admin") {
+      return;
+    }
+
+    setUserFilters(filters);
+    try {
+      await loadUsers(accessToken, filters, page);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not load users.");
+    }
+  }
+
+  function handleUserSearch(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void applyUserFilters(userFilters, 1);
+  }
+
+  async function loadAuditLog(token: string, filters: AuditFilters = auditFilters, cursor?: string) {
+    setAuditLoading(true);
+    try {
+      const response = await apiFetch(auditLogPath("/api/admin/audit-log", filters, cursor), {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      const data = await parseApiJson<AuditLogPage | AuthResponse>(response);
+      if (!response.ok) {
+        const errorData = data as AuthResponse;
+        throw new Error(errorData.error ?? "Could not load the audit log.");
+      }
+
+      const page = data as AuditLogPage;
+      setAuditEntries((current) => (cursor ? [...current, ...page.items] : page.items));
+      setNextAuditCursor(page.nextCursor);
+    } finally {
+      setAuditLoading(false);
+    }
+  }
+
+  async function applyAuditFilters(filters: AuditFilters, cursor?: string) {
+    if (!accessToken || currentRole !== "admin") {
+      return;
+    }
+
+    setAuditFilters(filters);
+    try {
+      await loadAuditLog(accessToken, filters, cursor);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not load the audit log.");
+    }
+  }
+
+  function handleAuditSearch(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void applyAuditFilters(auditFilters);
+  }
+
+  async function handleExportAuditLog() {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can export the audit log.");
+      return;
+    }
+
+    setAuditExporting(true);
+    try {
+      const response = await apiFetch(auditLogPath("/api/admin/audit-log/export", auditFilters), {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        const data = await parseApiJson<AuthResponse>(response);
+        setStatus(data.error ?? "Could not export the audit log.");
+        return;
+      }
+
+      const fileUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = fileUrl;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(fileUrl);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not export the audit log.");
+    } finally {
+      setAuditExporting(false);
+    }
+  }
+
+  async function loadModerationFlags(
+    token: string,
+    status: ModerationStatusFilter = moderationStatus,
+    cursor?: string
+  ) {
+    setModerationLoading(true);
+    try {
+      const params = new URLSearchParams({ status });
+      if (cursor) {
+        params.set("cursor", cursor);
+      }
+
+      const response = await apiFetch(`/api/admin/moderation-flags?${params.toString()}`, {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      const data = await parseApiJson<ModerationFlagPage | AuthResponse>(response);
+      if (!response.ok) {
+        const errorData = data as AuthResponse;
+        throw new Error(errorData.error ?? "Could not load flagged AI exchanges.");
+      }
+
+      const page = data as ModerationFlagPage;
+      setModerationFlags((current) => (cursor ? [...current, ...page.items] : page.items));
+      setNextModerationCursor(page.nextCursor);
+    } finally {
+      setModerationLoading(false);
+    }
+  }
+
+  async function applyModerationStatus(status: ModerationStatusFilter, cursor?: string) {
+    if (!accessToken || currentRole !== "admin") {
+      return;
+    }
+
+    setModerationStatus(status);
+    try {
+      await loadModerationFlags(accessToken, status, cursor);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not load flagged AI exchanges.");
+    }
+  }
+
+  async function handleReviewFlag(flag: ModerationFlag) {
+    if (!accessToken || currentRole !== "admin") {
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/api/admin/moderation-flags/${flag.id}/review`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<ModerationFlag & AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Could not mark the exchange as reviewed.");
+        return;
+      }
+
+      setModerationFlags((current) =>
+        moderationStatus === "open"
+          ? current.filter((item) => item.id !== flag.id)
+          : current.map((item) => (item.id === flag.id ? data : item))
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not mark the exchange as reviewed.");
+    }
+  }
+
+  async function loadAiUsageReport(token: string, from = aiUsageFrom, to = aiUsageTo) {
+    setAiUsageLoading(true);
+    try {
+      const response = await apiFetch(aiUsagePath(from, to), {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      const data = await parseApiJson<AiUsageReport | AuthResponse>(response);
+      if (!response.ok) {
+        const errorData = data as AuthResponse;
+        throw new Error(errorData.error ?? "Could not load the AI usage report.");
+      }
+
+      setAiUsageReport(data as AiUsageReport);
+    } finally {
+      setAiUsageLoading(false);
+    }
+  }
+
+  async function handleAiUsageSearch(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "admin") {
+      return;
+    }
+
+    try {
+      await loadAiUsageReport(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not load the AI usage report.");
+    }
+  }
+
+  async function loadVenues(token: string) {
+    const response = await apiFetch("/api/venues", {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    const data = await parseApiJson<Venue[] | AuthResponse>(response);
+    if (!response.ok) {
+      const errorData = data as AuthResponse;
+      throw new Error(errorData.error ?? "Could not load venues.");
+    }
+
+    setVenues(data as Venue[]);
+  }
+
+  async function loadInstructors(token: string, role: UserRole) {
+    const response = await fetch(
+      apiUrl(role === "admin" ? "/api/admin/instructors" : "/api/instructors"),
+      {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      }
+    );
+
+    const data = await parseApiJson<Instructor[] | AuthResponse>(response);
+    if (!response.ok) {
+      const errorData = data as AuthResponse;
+      throw new Error(errorData.error ?? "Could not load instructors.");
+    }
+
+    setInstructors(data as Instructor[]);
+  }
+
+  async function loadInstructorProfile(token: string) {
+    const response = await apiFetch("/api/instructor/profile", {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    const data = await parseApiJson<Instructor & AuthResponse>(response);
+    if (!response.ok) {
+      throw new Error(data.error ?? "Could not load your instructor profile.");
+    }
+
+    setInstructorProfile(data);
+    setProfileBio(data.bio ?? "");
+    setProfileEmail(data.contact_email ?? "");
+    setProfilePhone(data.contact_phone ?? "");
+  }
+
+  async function loadDashboard(role: UserRole, token: string) {
+    if (role === "admin") {
+      await Promise.all([
+        loadAdminClasses(token),
+        loadCategories(token),
+        loadInstructors(token, role),
+        loadVenues(token),
+        loadUsers(token),
+        loadAuditLog(token),
+        loadAiUsageReport(token),
+        loadModerationFlags(token),
+        loadConversations(token),
+        loadLlmAllowance(token)
+      ]);
+      return;
+    }
+
+    if (role === "instructor") {
+      await Promise.all([
+        loadInstructorClasses(token),
+        loadInstructorProfile(token),
+        loadCategories(token),
+        loadVenues(token),
+        loadConversations(token),
+        loadLlmAllowance(token)
+      ]);
+      return;
+    }
+
+    await Promise.all([
+      loadMemberClasses(token),
+      loadCalendarFeed(token),
+      loadNotificationPreferences(token),
+      loadCategories(token),
+      loadInstructors(token, role),
+      loadVenues(token),
+      loadConversations(token),
+      loadLlmAllowance(token)
+    ]);
+  }
+
+  async function handleAuthSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (authMode === "forgot") {
+      await sendAuthEmail("/api/auth/forgot-password", "Could not send the reset email.");
+      return;
+    }
+
+    setAuthLoading(true);
+    setStatus("");
+
+    try {
+      const endpoint = authMode === "signup" ? "/api/auth/signup" : "/api/auth/login";
+      const payload = { email, password };
+
+      const response = await fetch(apiUrl(endpoint), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(payload)
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+
+      if (!response.ok) {
+        setStatus(data.error ?? "Authentication failed.");
+        return;
+      }
+
+      if (!data.accessToken) {
+        setStatus(
+          data.message ??
+            "Account created. Confirm your email in Supabase settings before logging in."
+        );
+        return;
+      }
+
+      if (!data.role) {
+        setStatus("Role was not returned by the API.");
+        return;
+      }
+
+      if (data.refreshToken) {
+        writeStoredSession({ accessToken: data.accessToken, refreshToken: data.refreshToken });
+      }
+      setAccessToken(data.accessToken);
+      setCurrentRole(data.role);
+      setStatus(data.message ?? "Authenticated.");
+      await loadDashboard(data.role, data.accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not reach the backend API.");
+    } finally {
+      setAuthLoading(false);
+    }
+  }
+
+  async function sendAuthEmail(path: string, fallbackError: string) {
+    if (!email) {
+      setStatus("Enter your email address first.");
+      return;
+    }
+
+    setAuthLoading(true);
+    setStatus("");
+
+    try {
+      const response = await fetch(apiUrl(path), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ email })
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      setStatus(response.ok ? (data.message ?? "Email sent.") : (data.error ?? fallbackError));
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus(fallbackError);
+    } finally {
+      setAuthLoading(false);
+    }
+  }
+
+  async function submitNewPassword(path: string, payload: Record<string, string>) {
+    if (!accessToken) {
+      setStatus("Log in to change your password.");
+      return false;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setStatus("The new passwords do not match.");
+      return false;
+    }
+
+    setPasswordLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(path, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify(payload)
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Password update failed.");
+        return false;
+      }
+
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setStatus(data.message ?? "Password updated.");
+      return true;
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return false;
+      }
+      setStatus("Could not update the password.");
+      return false;
+    } finally {
+      setPasswordLoading(false);
+    }
+  }
+
+  async function handleResetPassword(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (await submitNewPassword("/api/auth/reset-password", { password: newPassword })) {
+      setPasswordRecovery(false);
+    }
+  }
+
+  async function handleChangePassword(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    await submitNewPassword("/api/auth/change-password", { currentPassword, newPassword });
+  }
+
+  async function handleDraftDescription() {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can draft class descriptions.");
+      return;
+    }
+
+    const notes = draftNotes
+      .split("\n")
+      .map((note) => note.replace(/^\s*[-*•]\s*/, "").trim())
+      .filter(Boolean);
+    if (title.trim().length < 2 || notes.length === 0) {
+      setStatus("Add a title and at least one note before drafting a description.");
+      return;
+    }
+
+    if (description.trim() && !window.confirm("Replace the current description with an AI draft?")) {
+      return;
+    }
+
+    const draftInstructor = instructorId
+      ? instructors.find((instructor) => instructor.id === instructorId)?.name
+      : instructorName.trim();
+    const draftLocation = selectedVenue ? venueLabel(selectedVenue) : location.trim();
+
+    setDraftLoading(true);
+    try {
+      const response = await apiFetch("/api/admin/class-drafts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({
+          title: title.trim(),
+          instructorName: draftInstructor || undefined,
+          location: draftLocation || undefined,
+          notes
+        })
+      });
+
+      const data = await parseApiJson<ClassDraftResponse>(response);
+      if (!response.ok || !data.description) {
+        setStatus(data.error ?? "Could not draft a description.");
+        return;
+      }
+
+      setDescription(data.description);
+      setTags((data.tags ?? []).join(", "));
+      setSkillLevel(data.skillLevel ?? "all_levels");
+      setStatus("Draft ready. Review the description, tags and skill level before creating the class.");
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not draft a description.");
+    } finally {
+      setDraftLoading(false);
+    }
+  }
+
+  async function handleCreateClass(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can create classes.");
+      return;
+    }
+
+    const capacityValue = Number(capacity);
+    if (!Number.isInteger(capacityValue) || capacityValue <= 0) {
+      setStatus("Capacity must be a positive number.");
+      return;
+    }
+
+    if (selectedVenue && capacityValue > selectedVenue.max_occupancy) {
+      setStatus(`${venueLabel(selectedVenue)} holds at most ${selectedVenue.max_occupancy} people.`);
+      return;
+    }
+
+    const startsAtMs = Date.parse(startsAt);
+    if (Number.isNaN(startsAtMs)) {
+      setStatus("Start time must be a valid date and time.");
+      return;
+    }
+    const startsAtIso = new Date(startsAtMs).toISOString();
+
+    const durationValue = Number(durationMinutes);
+    if (!Number.isInteger(durationValue) || durationValue < 15 || durationValue > 720) {
+      setStatus("Duration must be between 15 and 720 minutes.");
+      return;
+    }
+
+    const ageRange = parseAgeRange(minAge, maxAge);
+    if (!ageRange) {
+      setStatus("Ages must be between 0 and 120, with the minimum no higher than the maximum.");
+      return;
+    }
+
+    const sessionCountValue = Number(sessionCount);
+    if (
+      recurrence !== "none" &&
+      (!Number.isInteger(sessionCountValue) || sessionCountValue < 1 || sessionCountValue > 52)
+    ) {
+      setStatus("Number of sessions must be between 1 and 52.");
+      return;
+    }
+
+    setCreateLoading(true);
+    setStatus("");
+
+    const classPayload = {
+      title,
+      description,
+      ...(instructorId ? { instructorId } : { instructorName }),
+      ...(venueId ? { venueId } : { location }),
+      startsAt: startsAtIso,
+      durationMinutes: durationValue,
+      capacity: capacityValue,
+      categoryId: categoryId || null,
+      tags: parseTagInput(tags),
+      skillLevel,
+      ...ageRange
+    };
+
+    const submit = (allowConflicts: boolean) =>
+      recurrence === "none"
+        ? apiFetch("/api/admin/classes", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({ ...classPayload, allowConflicts })
+          })
+        : apiFetch("/api/admin/class-series", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({
+              ...classPayload,
+              allowConflicts,
+              frequency: recurrence,
+              sessionCount: sessionCountValue,
+              skipDates,
+              timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+            })
+          });
+
+    try {
+      let response = await submit(false);
+      let data = await parseApiJson<ClassSeriesResponse>(response);
+
+      if (isScheduleConflict(response, data)) {
+        if (!confirmScheduleConflicts(data)) {
+          setStatus(data.error ?? "Class creation cancelled.");
+          return;
+        }
+        response = await submit(true);
+        data = await parseApiJson<ClassSeriesResponse>(response);
+      }
+
+      if (!response.ok) {
+        setStatus(data.error ?? "Class creation failed.");
+        return;
+      }
+
+      setStatus(
+        recurrence === "none"
+          ? "Class created."
+          : `Class series created with ${data.sessions?.length ?? 0} sessions.`
+      );
+      setTitle("");
+      setDescription("");
+      setInstructorName("");
+      setInstructorId("");
+      setLocation("");
+      setVenueId("");
+      setStartsAt("");
+      setCapacity("20");
+      setDurationMinutes("60");
+      setCategoryId("");
+      setTags("");
+      setSkillLevel("all_levels");
+      setDraftNotes("");
+      setMinAge("");
+      setMaxAge("");
+      setRecurrence("none");
+      setSessionCount("6");
+      setSkipDateInput("");
+      setSkipDates([]);
+      await loadAdminClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not create class.");
+    } finally {
+      setCreateLoading(false);
+    }
+  }
+
+  function addSkipDate() {
+    if (!skipDateInput || skipDates.includes(skipDateInput)) {
+      return;
+    }
+    setSkipDates([...skipDates, skipDateInput].sort());
+    setSkipDateInput("");
+  }
+
+  function startEditingClass(item: CommunityClass) {
+    setEditingClassId(item.id);
+    setClassEdit({
+      title: item.title,
+      description: item.description,
+      instructorName: item.instructor_name,
+      instructorId: item.instructor_id ?? "",
+      location: item.location,
+      venueId: item.venue_id ?? "",
+      startsAt: toDateTimeLocal(item.starts_at),
+      durationMinutes: String(item.duration_minutes),
+      capacity: String(item.capacity),
+      categoryId: item.category_id ?? "",
+      tags: item.tags.join(", "),
+      skillLevel: item.skill_level,
+      minAge: item.min_age === null ? "" : String(item.min_age),
+      maxAge: item.max_age === null ? "" : String(item.max_age)
+    });
+  }
+
+  function stopEditingClass() {
+    setEditingClassId(null);
+    setClassEdit(null);
+  }
+
+  async function handleUpdateClass(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "admin" || !editingClassId || !classEdit) {
+      setStatus("Only admins can edit classes.");
+      return;
+    }
+
+    const capacityValue = Number(classEdit.capacity);
+    if (!Number.isInteger(capacityValue) || capacityValue <= 0) {
+      setStatus("Capacity must be a positive number.");
+      return;
+    }
+
+    const editVenue = classEdit.venueId ? venuesById.get(classEdit.venueId) : undefined;
+    if (editVenue && capacityValue > editVenue.max_occupancy) {
+      setStatus(`${venueLabel(editVenue)} holds at most ${editVenue.max_occupancy} people.`);
+      return;
+    }
+
+    const startsAtMs = Date.parse(classEdit.startsAt);
+    if (Number.isNaN(startsAtMs)) {
+      setStatus("Start time must be a valid date and time.");
+      return;
+    }
+
+    const durationValue = Number(classEdit.durationMinutes);
+    if (!Number.isInteger(durationValue) || durationValue < 15 || durationValue > 720) {
+      setStatus("Duration must be between 15 and 720 minutes.");
+      return;
+    }
+
+    const ageRange = parseAgeRange(classEdit.minAge, classEdit.maxAge);
+    if (!ageRange) {
+      setStatus("Ages must be between 0 and 120, with the minimum no higher than the maximum.");
+      return;
+    }
+
+    setAdminActionClassId(editingClassId);
+    setStatus("");
+
+    const submit = (allowConflicts: boolean) =>
+      apiFetch(`/api/admin/classes/${editingClassId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({
+          title: classEdit.title,
+          description: classEdit.description,
+          instructorName: classEdit.instructorName,
+          instructorId: classEdit.instructorId || null,
+          ...(classEdit.venueId
+            ? { venueId: classEdit.venueId }
+            : { venueId: null, location: classEdit.location }),
+          startsAt: new Date(startsAtMs).toISOString(),
+          durationMinutes: durationValue,
+          capacity: capacityValue,
+          categoryId: classEdit.categoryId || null,
+          tags: parseTagInput(classEdit.tags),
+          skillLevel: classEdit.skillLevel,
+          ...ageRange,
+          allowConflicts
+        })
+      });
+
+    try {
+      let response = await submit(false);
+      let data = await parseApiJson<ConflictResponse>(response);
+
+      if (isScheduleConflict(response, data)) {
+        if (!confirmScheduleConflicts(data)) {
+          setStatus(data.error ?? "Class update cancelled.");
+          return;
+        }
+        response = await submit(true);
+        data = await parseApiJson<ConflictResponse>(response);
+      }
+
+      if (!response.ok) {
+        setStatus(data.error ?? "Class update failed.");
+        return;
+      }
+
+      setStatus("Class updated.");
+      stopEditingClass();
+      await loadAdminClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not update class.");
+    } finally {
+      setAdminActionClassId(null);
+    }
+  }
+
+  async function handleCreateCategory(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage categories.");
+      return;
+    }
+
+    setCategoryLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch("/api/admin/categories", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({
+          name: categoryName,
+          description: categoryDescription.trim() || null
+        })
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Category creation failed.");
+        return;
+      }
+
+      setStatus("Category created.");
+      setCategoryName("");
+      setCategoryDescription("");
+      await loadCategories(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not create category.");
+    } finally {
+      setCategoryLoading(false);
+    }
+  }
+
+  async function handleRenameCategory(category: ClassCategory) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage categories.");
+      return;
+    }
+
+    const name = window.prompt("Category name", category.name)?.trim();
+    if (!name || name === category.name) {
+      return;
+    }
+
+    setCategoryLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/categories/${category.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ name })
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Category update failed.");
+        return;
+      }
+
+      setStatus("Category renamed.");
+      await loadCategories(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not rename category.");
+    } finally {
+      setCategoryLoading(false);
+    }
+  }
+
+  async function handleDeleteCategory(category: ClassCategory) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage categories.");
+      return;
+    }
+
+    if (!window.confirm(`Delete "${category.name}"? Its classes stay listed without a category.`)) {
+      return;
+    }
+
+    setCategoryLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/categories/${category.id}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Category deletion failed.");
+        return;
+      }
+
+      setStatus(data.message ?? "Category deleted.");
+      await Promise.all([loadCategories(accessToken), loadAdminClasses(accessToken)]);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not delete category.");
+    } finally {
+      setCategoryLoading(false);
+    }
+  }
+
+  async function handleCancelClass(classId: string) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can cancel classes.");
+      return;
+    }
+
+    if (!window.confirm("Cancel this class? Registered members will see it as cancelled.")) {
+      return;
+    }
+
+    setAdminActionClassId(classId);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/classes/${classId}/cancel`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Class cancellation failed.");
+        return;
+      }
+
+      setStatus("Class cancelled.");
+      await loadAdminClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not cancel class.");
+    } finally {
+      setAdminActionClassId(null);
+    }
+  }
+
+  async function handleDeleteClass(classId: string) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can delete classes.");
+      return;
+    }
+
+    if (!window.confirm("Delete this class permanently? Its registrations are removed too.")) {
+      return;
+    }
+
+    setAdminActionClassId(classId);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/classes/${classId}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Class deletion failed.");
+        return;
+      }
+
+      setStatus(data.message ?? "Class deleted.");
+      await loadAdminClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not delete class.");
+    } finally {
+      setAdminActionClassId(null);
+    }
+  }
+
+  async function loadRoster(classId: string) {
+    if (!accessToken || (currentRole !== "admin" && currentRole !== "instructor")) {
+      setStatus("Only admins and instructors can view class rosters.");
+      return;
+    }
+
+    setRosterLoading(true);
+    try {
+      const response = await apiFetch(`/api/${currentRole}/classes/${classId}/roster`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<RosterResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Could not load roster.");
+        return;
+      }
+
+      setRoster(data.members ?? []);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not load roster.");
+    } finally {
+      setRosterLoading(false);
+    }
+  }
+
+  async function toggleRoster(classId: string) {
+    if (rosterClassId === classId) {
+      setRosterClassId(null);
+      setRoster([]);
+      return;
+    }
+
+    setRosterClassId(classId);
+    setRoster([]);
+    await loadRoster(classId);
+  }
+
+  async function handleCheckIn(classId: string, memberId: string, attendance: AttendanceStatus) {
+    if (!accessToken || (currentRole !== "admin" && currentRole !== "instructor")) {
+      setStatus("Only admins and instructors can record attendance.");
+      return;
+    }
+
+    setCheckInMemberId(memberId);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/${currentRole}/classes/${classId}/attendance`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ records: [{ memberId, status: attendance }] })
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Could not record attendance.");
+        return;
+      }
+
+      setRoster((current) =>
+        current.map((entry) =>
+          entry.memberId === memberId
+            ? { ...entry, attendance, attendanceMarkedAt: new Date().toISOString() }
+            : entry
+        )
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not record attendance.");
+    } finally {
+      setCheckInMemberId(null);
+    }
+  }
+
+  async function handleChangeUserRole(target: ManagedUser, role: UserRole) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage users.");
+      return;
+    }
+
+    const label = target.email ?? target.id;
+    if (!window.confirm(`Change ${label} from ${roleTitle(target.role)} to ${roleTitle(role)}?`)) {
+      return;
+    }
+
+    setUserActionId(target.id);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/users/${target.id}/role`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ role })
+      });
+
+      const data = await parseApiJson<ManagedUser & AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Role change failed.");
+        return;
+      }
+
+      setManagedUsers((current) => current.map((item) => (item.id === data.id ? data : item)));
+      setStatus(`${data.email ?? "User"} is now ${roleTitle(data.role).toLowerCase()}.`);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not change role.");
+    } finally {
+      setUserActionId(null);
+    }
+  }
+
+  async function handleToggleSuspension(target: ManagedUser) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage users.");
+      return;
+    }
+
+    const action = target.suspendedAt ? "reactivate" : "suspend";
+    if (
+      action === "suspend" &&
+      !window.confirm(`Suspend ${target.email ?? target.id}? They will be signed out.`)
+    ) {
+      return;
+    }
+
+    setUserActionId(target.id);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/users/${target.id}/${action}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<ManagedUser & AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Account update failed.");
+        return;
+      }
+
+      setManagedUsers((current) => current.map((item) => (item.id === data.id ? data : item)));
+      setStatus(action === "suspend" ? "Account suspended." : "Account reactivated.");
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not update account.");
+    } finally {
+      setUserActionId(null);
+    }
+  }
+
+  async function handleCreateVenue(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage venues.");
+      return;
+    }
+
+    const maxOccupancyValue = Number(venueMaxOccupancy);
+    if (!Number.isInteger(maxOccupancyValue) || maxOccupancyValue <= 0) {
+      setStatus("Maximum occupancy must be a positive number.");
+      return;
+    }
+
+    setVenueLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch("/api/admin/venues", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({
+          name: venueName,
+          room: venueRoom.trim() || null,
+          address: venueAddress,
+          maxOccupancy: maxOccupancyValue,
+          accessibilityNotes: venueAccessibilityNotes.trim() || null
+        })
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Venue creation failed.");
+        return;
+      }
+
+      setStatus("Venue added.");
+      setVenueName("");
+      setVenueRoom("");
+      setVenueAddress("");
+      setVenueMaxOccupancy("");
+      setVenueAccessibilityNotes("");
+      await loadVenues(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not add venue.");
+    } finally {
+      setVenueLoading(false);
+    }
+  }
+
+  async function handleDeleteVenue(venue: Venue) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage venues.");
+      return;
+    }
+
+    if (!window.confirm(`Delete ${venueLabel(venue)}? Its classes keep the location text.`)) {
+      return;
+    }
+
+    setVenueLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/venues/${venue.id}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Venue deletion failed.");
+        return;
+      }
+
+      setStatus(data.message ?? "Venue deleted.");
+      await Promise.all([loadVenues(accessToken), loadAdminClasses(accessToken)]);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not delete venue.");
+    } finally {
+      setVenueLoading(false);
+    }
+  }
+
+  async function handleCreateInstructor(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage instructors.");
+      return;
+    }
+
+    setInstructorLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch("/api/admin/instructors", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({
+          name: newInstructorName,
+          bio: newInstructorBio.trim() || null,
+          contactEmail: newInstructorEmail.trim() || null,
+          contactPhone: newInstructorPhone.trim() || null,
+          userId: newInstructorUserId.trim() || null
+        })
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Instructor creation failed.");
+        return;
+      }
+
+      setStatus("Instructor added.");
+      setNewInstructorName("");
+      setNewInstructorEmail("");
+      setNewInstructorPhone("");
+      setNewInstructorBio("");
+      setNewInstructorUserId("");
+      await loadInstructors(accessToken, currentRole);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not add instructor.");
+    } finally {
+      setInstructorLoading(false);
+    }
+  }
+
+  async function handleDeleteInstructor(instructor: Instructor) {
+    if (!accessToken || currentRole !== "admin") {
+      setStatus("Only admins can manage instructors.");
+      return;
+    }
+
+    if (
+      !window.confirm(
+        `Remove ${instructor.name}? Their classes keep the name but lose the instructor link.`
+      )
+    ) {
+      return;
+    }
+
+    setInstructorLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/admin/instructors/${instructor.id}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Instructor deletion failed.");
+        return;
+      }
+
+      setStatus(data.message ?? "Instructor deleted.");
+      await Promise.all([loadInstructors(accessToken, currentRole), loadAdminClasses(accessToken)]);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not delete instructor.");
+    } finally {
+      setInstructorLoading(false);
+    }
+  }
+
+  async function handleSaveProfile(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "instructor") {
+      setStatus("Only instructors can edit their profile.");
+      return;
+    }
+
+    setProfileLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch("/api/instructor/profile", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({
+          bio: profileBio.trim() || null,
+          contactEmail: profileEmail.trim() || null,
+          contactPhone: profilePhone.trim() || null
+        })
+      });
+
+      const data = await parseApiJson<Instructor & AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Profile update failed.");
+        return;
+      }
+
+      setInstructorProfile(data);
+      setStatus("Profile saved.");
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not save profile.");
+    } finally {
+      setProfileLoading(false);
+    }
+  }
+
+  async function handleSaveDescription(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!accessToken || currentRole !== "instructor" || !editingClassId) {
+      setStatus("Only instructors can edit their class descriptions.");
+      return;
+    }
+
+    setAdminActionClassId(editingClassId);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/instructor/classes/${editingClassId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ description: descriptionDraft })
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Description update failed.");
+        return;
+      }
+
+      setStatus("Description updated.");
+      setEditingClassId(null);
+      setDescriptionDraft("");
+      await loadInstructorClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not update description.");
+    } finally {
+      setAdminActionClassId(null);
+    }
+  }
+
+  async function handleRegister(classId: string) {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can register for classes.");
+      return;
+    }
+
+    setRegisteringClassId(classId);
+    setStatus("");
+
+    const submit = (allowConflicts: boolean) =>
+      apiFetch("/api/member/registrations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ classId, allowConflicts })
+      });
+
+    try {
+      let response = await submit(false);
+      let data = await parseApiJson<ConflictResponse>(response);
+
+      if (isScheduleConflict(response, data)) {
+        if (!confirmScheduleConflicts(data)) {
+          setStatus(data.error ?? "Registration cancelled.");
+          return;
+        }
+        response = await submit(true);
+        data = await parseApiJson<ConflictResponse>(response);
+      }
+
+      if (!response.ok) {
+        setStatus(data.error ?? "Registration failed.");
+        return;
+      }
+
+      setStatus(data.message ?? "Registration successful.");
+      await loadMemberClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not complete registration.");
+    } finally {
+      setRegisteringClassId(null);
+    }
+  }
+
+  async function handleUnregister(classId: string) {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can cancel registrations.");
+      return;
+    }
+
+    setRegisteringClassId(classId);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/member/registrations/${classId}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Could not cancel registration.");
+        return;
+      }
+
+      setStatus(data.message ?? "Registration cancelled.");
+      await loadMemberClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not cancel registration.");
+    } finally {
+      setRegisteringClassId(null);
+    }
+  }
+
+  async function handleRegisterSeries(seriesId: string, classId: string) {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can register for classes.");
+      return;
+    }
+
+    setRegisteringClassId(classId);
+    setStatus("");
+
+    const submit = (allowConflicts: boolean) =>
+      apiFetch("/api/member/series-registrations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ seriesId, allowConflicts })
+      });
+
+    try {
+      let response = await submit(false);
+      let data = await parseApiJson<SeriesRegistrationResponse>(response);
+
+      if (isScheduleConflict(response, data)) {
+        if (!confirmScheduleConflicts(data)) {
+          setStatus(data.error ?? "Series registration cancelled.");
+          return;
+        }
+        response = await submit(true);
+        data = await parseApiJson<SeriesRegistrationResponse>(response);
+      }
+
+      if (!response.ok) {
+        setStatus(describeSkippedSessions(data, "Series registration failed."));
+        return;
+      }
+
+      setStatus(describeSkippedSessions(data, "Registered for the series."));
+      await loadMemberClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not complete series registration.");
+    } finally {
+      setRegisteringClassId(null);
+    }
+  }
+
+  async function handleDownloadCalendar(item: CommunityClass) {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Log in as a member to add classes to your calendar.");
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/api/member/classes/${item.id}/calendar.ics`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        const data = await parseApiJson<AuthResponse>(response);
+        setStatus(data.error ?? "Could not download calendar file.");
+        return;
+      }
+
+      const fileUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = fileUrl;
+      link.download = `${item.title.replace(/[^\w-]+/g, "-").toLowerCase()}.ics`;
+      link.click();
+      URL.revokeObjectURL(fileUrl);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not download calendar file.");
+    }
+  }
+
+  async function handleCreateCalendarFeed() {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can subscribe to a calendar feed.");
+      return;
+    }
+
+    if (
+      calendarFeedActive &&
+      !window.confirm("Create a new link? Calendars subscribed to the old link will stop updating.")
+    ) {
+      return;
+    }
+
+    setCalendarFeedLoading(true);
+    setStatus("");
+
+    try {
+      const response = await apiFetch("/api/member/calendar-feed", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<CalendarFeedResponse>(response);
+      if (!response.ok || !data.webcalUrl) {
+        setStatus(data.error ?? "Could not create calendar feed.");
+        return;
+      }
+
+      setCalendarFeedActive(true);
+      setCalendarFeedUrl(data.webcalUrl);
+      setStatus("Calendar feed link created. Copy it now; it will not be shown again.");
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not create calendar feed.");
+    } finally {
+      setCalendarFeedLoading(false);
+    }
+  }
 
-  const dashboardTitle = useMemo(() => {
-    if (!currentRole) {
-      return "Community Classes";
+  async function handleRevokeCalendarFeed() {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can manage a calendar feed.");
+      return;
     }
-    return `${roleTitle(currentRole)} Dashboard`;
-  }, [currentRole]);
 
-  async function loadAdminClasses(token: string) {
-    setClassesLoading(true);
+    setCalendarFeedLoading(true);
+    setStatus("");
+
     try {
-      const response = await fetch(apiUrl("/api/admin/classes"), {
+      const response = await apiFetch("/api/member/calendar-feed", {
+        method: "DELETE",
         headers: {
-          Authorization: `Bearer ${token}`
+          Authorization: `Bearer ${accessToken}`
         }
       });
 
-      const data = await parseApiJson<CommunityClass[] | AuthResponse>(response);
+      const data = await parseApiJson<AuthResponse>(response);
       if (!response.ok) {
-        const errorData = data as AuthResponse;
-        throw new Error(errorData.error ?? "Could not load classes.");
+        setStatus(data.error ?? "Could not revoke calendar feed.");
+        return;
       }
 
-      setAdminClasses(data as CommunityClass[]);
+      setCalendarFeedActive(false);
+      setCalendarFeedUrl("");
+      setStatus(data.message ?? "Calendar feed link revoked.");
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not revoke calendar feed.");
     } finally {
-      setClassesLoading(false);
+      setCalendarFeedLoading(false);
     }
   }
 
-  async function loadMemberClasses(token: string) {
-    setClassesLoading(true);
+  async function handleNotificationPreferenceChange(
+    preference: keyof NotificationPreferences,
+    enabled: boolean
+  ) {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can manage email notifications.");
+      return;
+    }
+
+    setNotificationPrefsSaving(true);
+    setStatus("");
+
     try {
-      const response = await fetch(apiUrl("/api/member/classes"), {
+      const response = await apiFetch("/api/member/notification-preferences", {
+        method: "PATCH",
         headers: {
-          Authorization: `Bearer ${token}`
-        }
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ [preference]: enabled })
       });
 
-      const data = await parseApiJson<MemberClass[] | AuthResponse>(response);
+      const data = await parseApiJson<NotificationPreferencesResponse>(response);
       if (!response.ok) {
-        const errorData = data as AuthResponse;
-        throw new Error(errorData.error ?? "Could not load classes.");
+        setStatus(data.error ?? "Could not save email settings.");
+        return;
       }
 
-      setMemberClasses(data as MemberClass[]);
+      applyNotificationPreferences(data);
+      setStatus("Email settings saved.");
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not save email settings.");
     } finally {
-      setClassesLoading(false);
+      setNotificationPrefsSaving(false);
     }
   }
 
-  async function loadDashboard(role: UserRole, token: string) {
-    if (role === "admin") {
-      await loadAdminClasses(token);
+  async function handleJoinWaitlist(classId: string) {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can join class waitlists.");
       return;
     }
 
-    await loadMemberClasses(token);
-  }
-
-  async function handleAuthSubmit(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    setAuthLoading(true);
+    setRegisteringClassId(classId);
     setStatus("");
 
     try {
-      const endpoint = authMode === "signup" ? "/api/auth/signup" : "/api/auth/login";
-      const payload = { email, password };
-
-      const response = await fetch(apiUrl(endpoint), {
+      const response = await apiFetch("/api/member/waitlist", {
         method: "POST",
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`
         },
-        body: JSON.stringify(payload)
+        body: JSON.stringify({ classId })
       });
 
       const data = await parseApiJson<AuthResponse>(response);
-
       if (!response.ok) {
-        setStatus(data.error ?? "Authentication failed.");
+        setStatus(data.error ?? "Could not join the waitlist.");
         return;
       }
 
-      if (!data.accessToken) {
-        setStatus(
-          data.message ??
-            "Account created. Confirm your email in Supabase settings before logging in."
-        );
+      setStatus(data.message ?? "Added to the waitlist.");
+      await loadMemberClasses(accessToken);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
         return;
       }
+      setStatus("Could not join the waitlist.");
+    } finally {
+      setRegisteringClassId(null);
+    }
+  }
 
-      if (!data.role) {
-        setStatus("Role was not returned by the API.");
+  async function handleLeaveWaitlist(classId: string) {
+    if (!accessToken || currentRole !== "member") {
+      setStatus("Only members can leave class waitlists.");
+      return;
+    }
+
+    setRegisteringClassId(classId);
+    setStatus("");
+
+    try {
+      const response = await apiFetch(`/api/member/waitlist/${classId}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Could not leave the waitlist.");
         return;
       }
 
-      setAccessToken(data.accessToken);
-      setCurrentRole(data.role);
-      setStatus(data.message ?? "Authenticated.");
-      await loadDashboard(data.role, data.accessToken);
+      setStatus(data.message ?? "Removed from the waitlist.");
+      await loadMemberClasses(accessToken);
     } catch (error) {
       if (error instanceof Error) {
         setStatus(error.message);
         return;
       }
-      setStatus("Could not reach the backend API.");
+      setStatus("Could not leave the waitlist.");
     } finally {
-      setAuthLoading(false);
+      setRegisteringClassId(null);
     }
   }
 
-  async function handleCreateClass(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
+  async function loadLlmAllowance(token: string) {
+    const response = await apiFetch("/api/llm/usage", {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
 
-    if (!accessToken || currentRole !== "admin") {
-      setStatus("Only admins can create classes.");
-      return;
+    const data = await parseApiJson<LlmAllowance | AuthResponse>(response);
+    if (!response.ok) {
+      const errorData = data as AuthResponse;
+      throw new Error(errorData.error ?? "Could not load your AI allowance.");
     }
 
-    const capacityValue = Number(capacity);
-    if (!Number.isInteger(capacityValue) || capacityValue <= 0) {
-      setStatus("Capacity must be a positive number.");
+    setLlmAllowance(data as LlmAllowance);
+  }
+
+  async function loadConversations(token: string) {
+    const response = await apiFetch("/api/llm/conversations", {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    const data = await parseApiJson<AiConversation[] | AuthResponse>(response);
+    if (!response.ok) {
+      const errorData = data as AuthResponse;
+      throw new Error(errorData.error ?? "Could not load conversations.");
+    }
+
+    setConversations(data as AiConversation[]);
+  }
+
+  async function openConversation(conversationId: string) {
+    if (!accessToken) {
       return;
     }
 
-    const startsAtMs = Date.parse(startsAt);
-    if (Number.isNaN(startsAtMs)) {
-      setStatus("Start time must be a valid date and time.");
+    setConversationLoading(true);
+    try {
+      const response = await apiFetch(`/api/llm/conversations/${conversationId}`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+
+      const data = await parseApiJson<ConversationDetail & AuthResponse>(response);
+      if (!response.ok) {
+        setStatus(data.error ?? "Could not open the conversation.");
+        return;
+      }
+
+      setActiveConversationId(data.id);
+      setLlmRefusal(null);
+      setChatMessages(data.messages);
+    } catch (error) {
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not open the conversation.");
+    } finally {
+      setConversationLoading(false);
+    }
+  }
+
+  function startNewConversation() {
+    setActiveConversationId(null);
+    setChatMessages([]);
+    setLlmRefusal(null);
+    setQuestion("");
+  }
+
+  async function handleRenameConversation(conversation: AiConversation) {
+    if (!accessToken) {
       return;
     }
-    const startsAtIso = new Date(startsAtMs).toISOString();
 
-    setCreateLoading(true);
-    setStatus("");
+    const title = window.prompt("Conversation title", conversation.title)?.trim();
+    if (!title || title === conversation.title) {
+      return;
+    }
 
     try {
-      const response = await fetch(apiUrl("/api/admin/classes"), {
-        method: "POST",
+      const response = await apiFetch(`/api/llm/conversations/${conversation.id}`, {
+        method: "PATCH",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${accessToken}`
         },
-        body: JSON.stringify({
-          title,
-          description,
-          instructorName,
-          location,
-          startsAt: startsAtIso,
-          capacity: capacityValue
-        })
+        body: JSON.stringify({ title })
       });
 
-      const data = await parseApiJson<AuthResponse>(response);
+      const data = await parseApiJson<AiConversation & AuthResponse>(response);
       if (!response.ok) {
-        setStatus(data.error ?? "Class creation failed.");
+        setStatus(data.error ?? "Could not rename the conversation.");
         return;
       }
 
-      setStatus("Class created.");
-      setTitle("");
-      setDescription("");
-      setInstructorName("");
-      setLocation("");
-      setStartsAt("");
-      setCapacity("20");
-      await loadAdminClasses(accessToken);
+      setConversations((current) => current.map((item) => (item.id === data.id ? data : item)));
     } catch (error) {
       if (error instanceof Error) {
         setStatus(error.message);
         return;
       }
-      setStatus("Could not create class.");
-    } finally {
-      setCreateLoading(false);
+      setStatus("Could not rename the conversation.");
     }
   }
 
-  async function handleRegister(classId: string) {
-    if (!accessToken || currentRole !== "member") {
-      setStatus("Only members can register for classes.");
+  async function handleDeleteConversation(conversation: AiConversation) {
+    if (!accessToken) {
       return;
     }
 
-    setRegisteringClassId(classId);
-    setStatus("");
+    if (!window.confirm(`Delete "${conversation.title}"? Its messages cannot be recovered.`)) {
+      return;
+    }
 
     try {
-      const response = await fetch(apiUrl("/api/member/registrations"), {
-        method: "POST",
+      const response = await apiFetch(`/api/llm/conversations/${conversation.id}`, {
+        method: "DELETE",
         headers: {
-          "Content-Type": "application/json",
           Authorization: `Bearer ${accessToken}`
-        },
-        body: JSON.stringify({ classId })
+        }
       });
 
       const data = await parseApiJson<AuthResponse>(response);
       if (!response.ok) {
-        setStatus(data.error ?? "Registration failed.");
+        setStatus(data.error ?? "Could not delete the conversation.");
         return;
       }
 
-      setStatus(data.message ?? "Registration successful.");
-      await loadMemberClasses(accessToken);
+      setConversations((current) => current.filter((item) => item.id !== conversation.id));
+      if (activeConversationId === conversation.id) {
+        startNewConversation();
+      }
     } catch (error) {
       if (error instanceof Error) {
         setStatus(error.message);
         return;
       }
-      setStatus("Could not complete registration.");
-    } finally {
-      setRegisteringClassId(null);
+      setStatus("Could not delete the conversation.");
+    }
+  }
+
+  async function readLlmStream(body: ReadableStream<Uint8Array>): Promise<LlmResponse> {
+    for await (const { event, data } of readSseEvents(body)) {
+      if (event === "token") {
+        const { text } = data as { text: string };
+        setStreamingAnswer((current) => current + text);
+      } else if (event === "done" || event === "error" || event === "refusal") {
+        return data as LlmResponse;
+      }
     }
+
+    return { error: "The answer stream ended unexpectedly." };
   }
 
   async function handleAskLlm(event: FormEvent<HTMLFormElement>) {
@@ -317,57 +3201,375 @@ export default function App() {
       return;
     }
 
+    const abortController = new AbortController();
+    llmStreamAbort.current = abortController;
     setLlmLoading(true);
+    setStreamingAnswer("");
+    setLlmRefusal(null);
     setStatus("");
-    setLlmAnswer("");
-    setLlmModel("");
 
     try {
-      const response = await fetch(apiUrl("/api/llm/ask"), {
+      const response = await apiFetch("/api/llm/ask", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${accessToken}`
         },
-        body: JSON.stringify({ question: trimmedQuestion })
+        body: JSON.stringify({
+          question: trimmedQuestion,
+          conversationId: activeConversationId ?? undefined,
+          stream: true,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        }),
+        signal: abortController.signal
       });
 
-      const data = await parseApiJson<LlmResponse>(response);
+      const isStream = response.headers.get("content-type")?.includes("text/event-stream");
+      const data =
+        isStream && response.body
+          ? await readLlmStream(response.body)
+          : await parseApiJson<LlmResponse>(response);
 
-      if (!response.ok) {
+      if (data.refusal) {
+        setLlmRefusal({ question: trimmedQuestion, message: data.refusal.message });
+        setQuestion("");
+        return;
+      }
+
+      if (!response.ok || data.error) {
         const details = data.details ? ` ${data.details}` : "";
         setStatus(`${data.error ?? "Question failed."}${details}`);
         return;
       }
 
-      if (!data.answer) {
-        setStatus("The model did not return an answer.");
-        return;
+      if (!data.answer || !data.conversation || !data.messages) {
+        setStatus("The model did not return an answer.");
+        return;
+      }
+
+      const conversation = data.conversation;
+      setActiveConversationId(conversation.id);
+      setChatMessages((current) => [...current, ...(data.messages ?? [])]);
+      setConversations((current) => [
+        conversation,
+        ...current.filter((item) => item.id !== conversation.id)
+      ]);
+      setQuestion("");
+      await loadLlmAllowance(accessToken);
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        return;
+      }
+      if (error instanceof Error) {
+        setStatus(error.message);
+        return;
+      }
+      setStatus("Could not reach the AI endpoint.");
+    } finally {
+      llmStreamAbort.current = null;
+      setStreamingAnswer("");
+      setLlmLoading(false);
+    }
+  }
+
+  async function handleLogout() {
+    if (accessToken) {
+      try {
+        // The refresh token lets the API revoke the session even after the access token expired.
+        await apiFetch("/api/auth/logout", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`
+          },
+          body: JSON.stringify({ refreshToken: readStoredSession()?.refreshToken })
+        });
+      } catch {
+        // The local session is cleared either way; the server session simply expires on its own.
+      }
+    }
+
+    clearSession("Logged out.");
+  }
+
+  function clearSession(message: string) {
+    llmStreamAbort.current?.abort();
+    writeStoredSession(null);
+    setAccessToken(null);
+    setPasswordRecovery(false);
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setCurrentRole(null);
+    setAdminClasses([]);
+    setMemberClasses([]);
+    setClassFilters(emptyClassFilters);
+    setNextClassCursor(null);
+    setCategories([]);
+    setInstructors([]);
+    setVenues([]);
+    setManagedUsers([]);
+    setUserFilters(emptyUserFilters);
+    setUserPage(1);
+    setUserTotal(0);
+    setAuditEntries([]);
+    setAuditFilters(emptyAuditFilters);
+    setNextAuditCursor(null);
+    setModerationFlags([]);
+    setModerationStatus("open");
+    setNextModerationCursor(null);
+    setAiUsageReport(null);
+    setAiUsageFrom("");
+    setAiUsageTo("");
+    setInstructorClasses([]);
+    setInstructorProfile(null);
+    setDescriptionDraft("");
+    stopEditingClass();
+    setRosterClassId(null);
+    setRoster([]);
+    setCalendarFeedActive(false);
+    setCalendarFeedUrl("");
+    setNotifyRegistrations(true);
+    setNotifyClassChanges(true);
+    setNotifyReminders(true);
+    setQuestion("");
+    setConversations([]);
+    setActiveConversationId(null);
+    setChatMessages([]);
+    setLlmAllowance(null);
+    setLlmRefusal(null);
+    setStatus(message);
+  }
+
+  const classFilterForm = (
+    <form onSubmit={handleFilterSubmit} className="filters">
+      <input
+        type="search"
+        placeholder="Search title, description or instructor"
+        value={classFilters.q}
+        onChange={(event) => setClassFilters({ ...classFilters, q: event.target.value })}
+      />
+      <input
+        type="text"
+        placeholder="Location"
+        value={classFilters.location}
+        onChange={(event) => setClassFilters({ ...classFilters, location: event.target.value })}
+      />
+      <label className="field">
+        From
+        <input
+          type="date"
+          value={classFilters.from}
+          onChange={(event) => setClassFilters({ ...classFilters, from: event.target.value })}
+        />
+      </label>
+      <label className="field">
+        To
+        <input
+          type="date"
+          value={classFilters.to}
+          onChange={(event) => setClassFilters({ ...classFilters, to: event.target.value })}
+        />
+      </label>
+      <select
+        value={classFilters.category}
+        onChange={(event) => setClassFilters({ ...classFilters, category: event.target.value })}
+      >
+        <option value="">Any category</option>
+        {categories.map((category) => (
+          <option key={category.id} value={category.id}>
+            {category.name}
+          </option>
+        ))}
+      </select>
+      {currentRole !== "instructor" && instructors.length > 0 && (
+        <select
+          value={classFilters.instructor}
+          onChange={(event) => setClassFilters({ ...classFilters, instructor: event.target.value })}
+        >
+          <option value="">Any instructor</option>
+          {instructors.map((instructor) => (
+            <option key={instructor.id} value={instructor.id}>
+              {instructor.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <select
+        value={classFilters.skillLevel}
+        onChange={(event) =>
+          setClassFilters({ ...classFilters, skillLevel: event.target.value as SkillLevel | "" })
+        }
+      >
+        <option value="">Any level</option>
+        {(Object.keys(skillLevelLabels) as SkillLevel[]).map((level) => (
+          <option key={level} value={level}>
+            {skillLevelLabels[level]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="Tags (comma separated)"
+        value={classFilters.tag}
+        onChange={(event) => setClassFilters({ ...classFilters, tag: event.target.value })}
+      />
+      <input
+        type="number"
+        min={0}
+        max={120}
+        placeholder="Age"
+        value={classFilters.age}
+        onChange={(event) => setClassFilters({ ...classFilters, age: event.target.value })}
+      />
+      <label className="checkbox">
+        <input
+          type="checkbox"
+          checked={classFilters.openOnly}
+          onChange={(event) => setClassFilters({ ...classFilters, openOnly: event.target.checked })}
+        />
+        Open seats only
+      </label>
+      {currentRole === "member" && (
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={classFilters.mine}
+            onChange={(event) => setClassFilters({ ...classFilters, mine: event.target.checked })}
+          />
+          My classes only
+        </label>
+      )}
+      <div className="toggle-row">
+        <button type="submit" disabled={classesLoading}>
+          Apply Filters
+        </button>
+        <button
+          type="button"
+          className="ghost"
+          disabled={classesLoading}
+          onClick={() => applyClassFilters(emptyClassFilters)}
+        >
+          Reset
+        </button>
+      </div>
+    </form>
+  );
+
+  function classDetails(item: CommunityClass) {
+    const ageLabel = ageRangeLabel(item);
+    const venue = item.venue_id ? venuesById.get(item.venue_id) : undefined;
+    return (
+      <>
+        <p>
+          <strong>Level:</strong> {skillLevelLabels[item.skill_level]}
+          {ageLabel && ` · ${ageLabel}`}
+        </p>
+        {venue && (
+          <p className="llm-meta">
+            {venue.address}
+            {venue.accessibility_notes && ` · Accessibility: ${venue.accessibility_notes}`}
+          </p>
+        )}
+        {item.category_id && (
+          <p>
+            <strong>Category:</strong> {categoryNames.get(item.category_id) ?? "Unknown"}
+          </p>
+        )}
+        {item.tags.length > 0 && (
+          <div className="tags">
+            {item.tags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                className="tag"
+                onClick={() => applyClassFilters({ ...classFilters, tag })}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  }
+
+  function rosterPanel(classId: string) {
+    return (
+      <div className="roster">
+        {rosterLoading ? (
+          <p>Loading roster...</p>
+        ) : roster.length === 0 ? (
+          <p>No one has registered yet.</p>
+        ) : (
+          <ul className="roster-list">
+            {roster.map((entry) => (
+              <li key={entry.memberId}>
+                <span>{entry.email ?? entry.memberId}</span>
+                <div className="toggle-row">
+                  {(["present", "late", "absent"] as AttendanceStatus[]).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      className={entry.attendance === option ? "active" : "ghost"}
+                      disabled={checkInMemberId === entry.memberId}
+                      onClick={() => handleCheckIn(classId, entry.memberId, option)}
+                    >
+                      {option[0].toUpperCase() + option.slice(1)}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  function citationLink(citation: ClassCitation, label: string) {
+    return (
+      <a
+        href={`#class-${citation.id}`}
+        onClick={(event) => {
+          // The card only exists while the class is in the loaded, filtered list.
+          if (!document.getElementById(`class-${citation.id}`)) {
+            event.preventDefault();
+            setStatus(
+              `"${citation.title}" is not in the list shown. Clear the filters or load more classes.`
+            );
+          }
+        }}
+      >
+        {label}
+      </a>
+    );
+  }
+
+  function renderChatContent(content: string, citations: ClassCitation[]) {
+    // The API tags classes as [class:<id>]; odd entries of the split are the ids.
+    return content.split(/\[class:([0-9a-f-]{36})\]/i).map((part, index) => {
+      if (index % 2 === 0) {
+        return part;
       }
 
-      setLlmAnswer(data.answer);
-      setLlmModel(data.model ?? "");
-    } catch (error) {
-      if (error instanceof Error) {
-        setStatus(error.message);
-        return;
-      }
-      setStatus("Could not reach the AI endpoint.");
-    } finally {
-      setLlmLoading(false);
-    }
+      const position = citations.findIndex((citation) => citation.id === part.toLowerCase());
+      return position === -1 ? null : (
+        <sup key={index}>{citationLink(citations[position], `[${position + 1}]`)}</sup>
+      );
+    });
   }
 
-  function logout() {
-    setAccessToken(null);
-    setCurrentRole(null);
-    setAdminClasses([]);
-    setMemberClasses([]);
-    setQuestion("");
-    setLlmAnswer("");
-    setLlmModel("");
-    setStatus("Logged out.");
-  }
+  const loadMoreButton = nextClassCursor && (
+    <button
+      type="button"
+      className="ghost"
+      disabled={loadingMoreClasses}
+      onClick={handleLoadMoreClasses}
+    >
+      {loadingMoreClasses ? "Loading..." : "Load More"}
+    </button>
+  );
 
   return (
     <main className="page">
@@ -378,13 +3580,15 @@ export default function App() {
             <p>Local programs for neighbors, families, and lifelong learners.</p>
           </div>
           {accessToken && (
-            <button type="button" className="ghost" onClick={logout}>
+            <button type="button" className="ghost" onClick={handleLogout}>
               Log Out
             </button>
           )}
         </header>
 
-        {!accessToken ? (
+        {restoringSession ? (
+          <p>Restoring your session...</p>
+        ) : !accessToken ? (
           <form onSubmit={handleAuthSubmit} className="stack">
             <div className="toggle-row">
               <button
@@ -410,20 +3614,74 @@ export default function App() {
               onChange={(event) => setEmail(event.target.value)}
               required
             />
-            <input
-              type="password"
-              placeholder="Password (8+ characters)"
-              value={password}
-              onChange={(event) => setPassword(event.target.value)}
-              minLength={8}
-              required
-            />
+            {authMode !== "forgot" && (
+              <input
+                type="password"
+                placeholder="Password (8+ characters)"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                minLength={8}
+                required
+              />
+            )}
             <button type="submit" disabled={authLoading}>
               {authLoading
                 ? "Please wait..."
                 : authMode === "signup"
                   ? "Create Member Account"
-                  : "Log In"}
+                  : authMode === "forgot"
+                    ? "Send Reset Link"
+                    : "Log In"}
+            </button>
+            <div className="toggle-row">
+              {authMode === "login" && (
+                <button type="button" className="ghost" onClick={() => setAuthMode("forgot")}>
+                  Forgot password?
+                </button>
+              )}
+              {authMode === "forgot" && (
+                <button type="button" className="ghost" onClick={() => setAuthMode("login")}>
+                  Back to log in
+                </button>
+              )}
+              {authMode !== "forgot" && (
+                <button
+                  type="button"
+                  className="ghost"
+                  disabled={authLoading}
+                  onClick={() =>
+                    sendAuthEmail(
+                      "/api/auth/resend-confirmation",
+                      "Could not resend the confirmation email."
+                    )
+                  }
+                >
+                  Resend confirmation email
+                </button>
+              )}
+            </div>
+          </form>
+        ) : passwordRecovery ? (
+          <form onSubmit={handleResetPassword} className="stack">
+            <h2>Choose a New Password</h2>
+            <input
+              type="password"
+              placeholder="New password (8+ characters)"
+              value={newPassword}
+              onChange={(event) => setNewPassword(event.target.value)}
+              minLength={8}
+              required
+            />
+            <input
+              type="password"
+              placeholder="Repeat new password"
+              value={confirmPassword}
+              onChange={(event) => setConfirmPassword(event.target.value)}
+              minLength={8}
+              required
+            />
+            <button type="submit" disabled={passwordLoading}>
+              {passwordLoading ? "Saving..." : "Save Password"}
             </button>
           </form>
         ) : currentRole === "admin" ? (
@@ -444,20 +3702,54 @@ export default function App() {
                 rows={4}
                 required
               />
-              <input
-                type="text"
-                placeholder="Instructor name"
-                value={instructorName}
-                onChange={(event) => setInstructorName(event.target.value)}
-                required
-              />
-              <input
-                type="text"
-                placeholder="Location"
-                value={location}
-                onChange={(event) => setLocation(event.target.value)}
-                required
+              <textarea
+                placeholder="Notes for an AI draft, one per line (what students do, what to bring...)"
+                value={draftNotes}
+                onChange={(event) => setDraftNotes(event.target.value)}
+                rows={3}
               />
+              <button
+                type="button"
+                className="ghost"
+                disabled={draftLoading}
+                onClick={handleDraftDescription}
+              >
+                {draftLoading ? "Drafting..." : "Draft with AI"}
+              </button>
+              <select value={instructorId} onChange={(event) => setInstructorId(event.target.value)}>
+                <option value="">Instructor without a profile</option>
+                {instructors.map((instructor) => (
+                  <option key={instructor.id} value={instructor.id}>
+                    {instructor.name}
+                  </option>
+                ))}
+              </select>
+              {!instructorId && (
+                <input
+                  type="text"
+                  placeholder="Instructor name"
+                  value={instructorName}
+                  onChange={(event) => setInstructorName(event.target.value)}
+                  required
+                />
+              )}
+              <select value={venueId} onChange={(event) => setVenueId(event.target.value)}>
+                <option value="">Other location (not in the venue list)</option>
+                {venues.map((venue) => (
+                  <option key={venue.id} value={venue.id}>
+                    {venueLabel(venue)} (up to {venue.max_occupancy})
+                  </option>
+                ))}
+              </select>
+              {!venueId && (
+                <input
+                  type="text"
+                  placeholder="Location"
+                  value={location}
+                  onChange={(event) => setLocation(event.target.value)}
+                  required
+                />
+              )}
               <div className="split">
                 <input
                   type="datetime-local"
@@ -468,61 +3760,1049 @@ export default function App() {
                 <input
                   type="number"
                   min={1}
-                  max={1000}
+                  max={selectedVenue?.max_occupancy ?? 1000}
                   value={capacity}
                   onChange={(event) => setCapacity(event.target.value)}
                   required
                 />
               </div>
+              <label className="field">
+                Duration (minutes)
+                <input
+                  type="number"
+                  min={15}
+                  max={720}
+                  step={5}
+                  value={durationMinutes}
+                  onChange={(event) => setDurationMinutes(event.target.value)}
+                  required
+                />
+              </label>
+              <div className="split">
+                <select value={categoryId} onChange={(event) => setCategoryId(event.target.value)}>
+                  <option value="">No category</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={skillLevel}
+                  onChange={(event) => setSkillLevel(event.target.value as SkillLevel)}
+                >
+                  {(Object.keys(skillLevelLabels) as SkillLevel[]).map((level) => (
+                    <option key={level} value={level}>
+                      {skillLevelLabels[level]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <input
+                type="text"
+                placeholder="Tags, comma separated (e.g. pottery, outdoors)"
+                value={tags}
+                onChange={(event) => setTags(event.target.value)}
+              />
+              <div className="split">
+                <input
+                  type="number"
+                  min={0}
+                  max={120}
+                  placeholder="Minimum age"
+                  value={minAge}
+                  onChange={(event) => setMinAge(event.target.value)}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={120}
+                  placeholder="Maximum age"
+                  value={maxAge}
+                  onChange={(event) => setMaxAge(event.target.value)}
+                />
+              </div>
+              <div className="split">
+                <select
+                  value={recurrence}
+                  onChange={(event) => setRecurrence(event.target.value as Recurrence)}
+                >
+                  <option value="none">Does not repeat</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="biweekly">Every two weeks</option>
+                </select>
+                {recurrence !== "none" && (
+                  <input
+                    type="number"
+                    min={1}
+                    max={52}
+                    placeholder="Number of sessions"
+                    value={sessionCount}
+                    onChange={(event) => setSessionCount(event.target.value)}
+                    required
+                  />
+                )}
+              </div>
+              {recurrence !== "none" && (
+                <div className="stack">
+                  <div className="split">
+                    <input
+                      type="date"
+                      value={skipDateInput}
+                      onChange={(event) => setSkipDateInput(event.target.value)}
+                    />
+                    <button type="button" className="ghost" onClick={addSkipDate}>
+                      Skip Date
+                    </button>
+                  </div>
+                  {skipDates.length > 0 && (
+                    <div className="toggle-row">
+                      {skipDates.map((date) => (
+                        <button
+                          key={date}
+                          type="button"
+                          className="ghost"
+                          onClick={() => setSkipDates(skipDates.filter((value) => value !== date))}
+                        >
+                          Skip {date} ✕
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
               <button type="submit" disabled={createLoading}>
-                {createLoading ? "Saving..." : "Add Class"}
+                {createLoading ? "Saving..." : recurrence === "none" ? "Add Class" : "Add Series"}
               </button>
             </form>
 
+            <section className="stack">
+              <h2>Categories</h2>
+              {categories.length > 0 && (
+                <ul className="category-list">
+                  {categories.map((category) => (
+                    <li key={category.id}>
+                      <span>
+                        <strong>{category.name}</strong>
+                        {category.description && ` — ${category.description}`}
+                      </span>
+                      <div className="toggle-row">
+                        <button
+                          type="button"
+                          className="ghost"
+                          disabled={categoryLoading}
+                          onClick={() => handleRenameCategory(category)}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          type="button"
+                          className="danger"
+                          disabled={categoryLoading}
+                          onClick={() => handleDeleteCategory(category)}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleCreateCategory} className="stack">
+                <input
+                  type="text"
+                  placeholder="New category name"
+                  value={categoryName}
+                  onChange={(event) => setCategoryName(event.target.value)}
+                  minLength={2}
+                  required
+                />
+                <input
+                  type="text"
+                  placeholder="Description (optional)"
+                  value={categoryDescription}
+                  onChange={(event) => setCategoryDescription(event.target.value)}
+                />
+                <button type="submit" disabled={categoryLoading}>
+                  Add Category
+                </button>
+              </form>
+            </section>
+
+            <section className="stack">
+              <h2>Users</h2>
+              <form onSubmit={handleUserSearch} className="filters">
+                <input
+                  type="search"
+                  placeholder="Search by email"
+                  value={userFilters.q}
+                  onChange={(event) => setUserFilters({ ...userFilters, q: event.target.value })}
+                />
+                <select
+                  value={userFilters.role}
+                  onChange={(event) =>
+                    setUserFilters({ ...userFilters, role: event.target.value as UserRole | "" })
+                  }
+                >
+                  <option value="">Any role</option>
+                  <option value="admin">Admins</option>
+                  <option value="instructor">Instructors</option>
+                  <option value="member">Members</option>
+                </select>
+                <select
+                  value={userFilters.status}
+                  onChange={(event) =>
+                    setUserFilters({
+                      ...userFilters,
+                      status: event.target.value as UserFilters["status"]
+                    })
+                  }
+                >
+                  <option value="">Any status</option>
+                  <option value="active">Active</option>
+                  <option value="suspended">Suspended</option>
+                </select>
+                <button type="submit" disabled={usersLoading}>
+                  Search
+                </button>
+              </form>
+              {usersLoading ? (
+                <p>Loading users...</p>
+              ) : managedUsers.length === 0 ? (
+                <p>No users match.</p>
+              ) : (
+                <ul className="category-list">
+                  {managedUsers.map((managedUser) => (
+                    <li key={managedUser.id}>
+                      <span>
+                        <strong>{managedUser.email ?? managedUser.id}</strong>
+                        {managedUser.suspendedAt && <span className="badge">Suspended</span>}
+                      </span>
+                      <div className="toggle-row">
+                        <select
+                          value={managedUser.role}
+                          disabled={userActionId === managedUser.id}
+                          onChange={(event) =>
+                            handleChangeUserRole(managedUser, event.target.value as UserRole)
+                          }
+                        >
+                          <option value="member">Member</option>
+                          <option value="instructor">Instructor</option>
+                          <option value="admin">Admin</option>
+                        </select>
+                        <button
+                          type="button"
+                          className={managedUser.suspendedAt ? "ghost" : "danger"}
+                          disabled={userActionId === managedUser.id}
+                          onClick={() => handleToggleSuspension(managedUser)}
+                        >
+                          {managedUser.suspendedAt ? "Reactivate" : "Suspend"}
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {userTotal > userPageSize && (
+                <div className="toggle-row">
+                  <button
+                    type="button"
+                    className="ghost"
+                    disabled={usersLoading || userPage <= 1}
+                    onClick={() => applyUserFilters(userFilters, userPage - 1)}
+                  >
+                    Previous
+                  </button>
+                  <span className="llm-meta">
+                    Page {userPage} of {Math.ceil(userTotal / userPageSize)}
+                  </span>
+                  <button
+                    type="button"
+                    className="ghost"
+                    disabled={usersLoading || userPage * userPageSize >= userTotal}
+                    onClick={() => applyUserFilters(userFilters, userPage + 1)}
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </section>
+
+            <section className="stack">
+              <h2>Audit Log</h2>
+              <form onSubmit={handleAuditSearch} className="filters">
+                <select
+                  value={auditFilters.action}
+                  onChange={(event) => setAuditFilters({ ...auditFilters, action: event.target.value })}
+                >
+                  <option value="">Any action</option>
+                  {auditActions.map((action) => (
+                    <option key={action} value={action}>
+                      {action}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={auditFilters.targetType}
+                  onChange={(event) =>
+                    setAuditFilters({
+                      ...auditFilters,
+                      targetType: event.target.value as AuditFilters["targetType"]
+                    })
+                  }
+                >
+                  <option value="">Any target</option>
+                  <option value="class">Classes</option>
+                  <option value="class_series">Series</option>
+                  <option value="user">Users</option>
+                </select>
+                <input
+                  placeholder="Target id"
+                  value={auditFilters.targetId}
+                  onChange={(event) => setAuditFilters({ ...auditFilters, targetId: event.target.value })}
+                />
+                <input
+                  placeholder="Actor id"
+                  value={auditFilters.actorId}
+                  onChange={(event) => setAuditFilters({ ...auditFilters, actorId: event.target.value })}
+                />
+                <input
+                  type="date"
+                  value={auditFilters.from}
+                  onChange={(event) => setAuditFilters({ ...auditFilters, from: event.target.value })}
+                />
+                <input
+                  type="date"
+                  value={auditFilters.to}
+                  onChange={(event) => setAuditFilters({ ...auditFilters, to: event.target.value })}
+                />
+                <button type="submit" disabled={auditLoading}>
+                  Filter
+                </button>
+                <button
+                  type="button"
+                  className="ghost"
+                  disabled={auditExporting}
+                  onClick={handleExportAuditLog}
+                >
+                  {auditExporting ? "Exporting..." : "Export CSV"}
+                </button>
+              </form>
+              {auditEntries.length === 0 ? (
+                <p>{auditLoading ? "Loading audit log..." : "No audit entries match."}</p>
+              ) : (
+                <ul className="category-list">
+                  {auditEntries.map((entry) => (
+                    <li key={entry.id}>
+                      <span>
+                        <strong>{entry.action}</strong> {entry.target_type} {entry.target_id}
+                      </span>
+                      <span className="llm-meta">
+                        {new Date(entry.created_at).toLocaleString()} by{" "}
+                        {entry.actor_role ? roleTitle(entry.actor_role).toLowerCase() : "unknown"}{" "}
+                        {entry.actor_id ?? ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {nextAuditCursor && (
+                <button
+                  type="button"
+                  className="ghost"
+                  disabled={auditLoading}
+                  onClick={() => applyAuditFilters(auditFilters, nextAuditCursor)}
+                >
+                  {auditLoading ? "Loading..." : "Load More"}
+                </button>
+              )}
+            </section>
+
+            <section className="stack">
+              <h2>AI Usage</h2>
+              <form onSubmit={handleAiUsageSearch} className="filters">
+                <input
+                  type="date"
+                  value={aiUsageFrom}
+                  onChange={(event) => setAiUsageFrom(event.target.value)}
+                />
+                <input
+                  type="date"
+                  value={aiUsageTo}
+                  onChange={(event) => setAiUsageTo(event.target.value)}
+                />
+                <button type="submit" disabled={aiUsageLoading}>
+                  {aiUsageLoading ? "Loading..." : "Show Usage"}
+                </button>
+              </form>
+              {aiUsageReport && (
+                <>
+                  <p className="llm-meta">
+                    {new Date(aiUsageReport.from).toLocaleDateString()} to{" "}
+                    {new Date(aiUsageReport.to).toLocaleDateString()}:{" "}
+                    {usageTotalsLabel(aiUsageReport.totals)}
+                  </p>
+                  {aiUsageReport.users.length === 0 ? (
+                    <p>No AI usage in this range.</p>
+                  ) : (
+                    <ul className="category-list">
+                      {aiUsageReport.users.map((row) => (
+                        <li key={row.user_id ?? "deleted"}>
+                          <span>
+                            <strong>{row.email ?? "Deleted accounts"}</strong> ·{" "}
+                            {roleTitle(row.role)}
+                          </span>
+                          <span className="llm-meta">
+                            {usageTotalsLabel(row)} · avg {row.average_latency_ms} ms · last used{" "}
+                            {new Date(row.last_used_at).toLocaleString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </section>
+
+            <section className="stack">
+              <h2>Flagged AI Exchanges</h2>
+              <div className="filters">
+                <select
+                  value={moderationStatus}
+                  onChange={(event) =>
+                    applyModerationStatus(event.target.value as ModerationStatusFilter)
+                  }
+                >
+                  <option value="open">Awaiting review</option>
+                  <option value="reviewed">Reviewed</option>
+                  <option value="all">All</option>
+                </select>
+              </div>
+              {moderationFlags.length === 0 ? (
+                <p>{moderationLoading ? "Loading flagged exchanges..." : "No flagged exchanges."}</p>
+              ) : (
+                <ul className="category-list">
+                  {moderationFlags.map((flag) => (
+                    <li key={flag.id}>
+                      <span>
+                        <strong>
+                          {flag.action === "refused" ? "Refused" : "Redacted"} {flag.stage}
+                        </strong>{" "}
+                        · {flag.reasons.join(", ")}
+                      </span>
+                      <span className="llm-meta">
+                        {new Date(flag.created_at).toLocaleString()} by{" "}
+                        {roleTitle(flag.user_role).toLowerCase()} {flag.user_id ?? "(deleted)"}
+                        {flag.reviewed_at &&
+                          ` · reviewed ${new Date(flag.reviewed_at).toLocaleString()}`}
+                      </span>
+                      <span className="flag-text">Q: {flag.question}</span>
+                      {flag.answer && <span className="flag-text">A: {flag.answer}</span>}
+                      {!flag.reviewed_at && (
+                        <button type="button" className="ghost" onClick={() => handleReviewFlag(flag)}>
+                          Mark Reviewed
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {nextModerationCursor && (
+                <button
+                  type="button"
+                  className="ghost"
+                  disabled={moderationLoading}
+                  onClick={() => applyModerationStatus(moderationStatus, nextModerationCursor)}
+                >
+                  {moderationLoading ? "Loading..." : "Load More"}
+                </button>
+              )}
+            </section>
+
+            <section className="stack">
+              <h2>Venues</h2>
+              {venues.length > 0 && (
+                <ul className="category-list">
+                  {venues.map((venue) => (
+                    <li key={venue.id}>
+                      <span>
+                        <strong>{venueLabel(venue)}</strong> · {venue.address} · up to{" "}
+                        {venue.max_occupancy}
+                      </span>
+                      <button
+                        type="button"
+                        className="danger"
+                        disabled={venueLoading}
+                        onClick={() => handleDeleteVenue(venue)}
+                      >
+                        Delete
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleCreateVenue} className="stack">
+                <div className="split">
+                  <input
+                    type="text"
+                    placeholder="Venue name"
+                    value={venueName}
+                    onChange={(event) => setVenueName(event.target.value)}
+                    minLength={2}
+                    required
+                  />
+                  <input
+                    type="text"
+                    placeholder="Room (optional)"
+                    value={venueRoom}
+                    onChange={(event) => setVenueRoom(event.target.value)}
+                  />
+                </div>
+                <div className="split">
+                  <input
+                    type="text"
+                    placeholder="Street address"
+                    value={venueAddress}
+                    onChange={(event) => setVenueAddress(event.target.value)}
+                    minLength={5}
+                    required
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    placeholder="Max occupancy"
+                    value={venueMaxOccupancy}
+                    onChange={(event) => setVenueMaxOccupancy(event.target.value)}
+                    required
+                  />
+                </div>
+                <textarea
+                  placeholder="Accessibility notes (step-free access, hearing loop, parking...)"
+                  value={venueAccessibilityNotes}
+                  onChange={(event) => setVenueAccessibilityNotes(event.target.value)}
+                  rows={2}
+                />
+                <button type="submit" disabled={venueLoading}>
+                  Add Venue
+                </button>
+              </form>
+            </section>
+
+            <section className="stack">
+              <h2>Instructors</h2>
+              {instructors.length > 0 && (
+                <ul className="category-list">
+                  {instructors.map((instructor) => (
+                    <li key={instructor.id}>
+                      <span>
+                        <strong>{instructor.name}</strong>
+                        {instructor.contact_email && ` · ${instructor.contact_email}`}
+                        {instructor.user_id ? " · can log in" : " · no login"}
+                      </span>
+                      <button
+                        type="button"
+                        className="danger"
+                        disabled={instructorLoading}
+                        onClick={() => handleDeleteInstructor(instructor)}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleCreateInstructor} className="stack">
+                <input
+                  type="text"
+                  placeholder="Instructor name"
+                  value={newInstructorName}
+                  onChange={(event) => setNewInstructorName(event.target.value)}
+                  minLength={2}
+                  required
+                />
+                <div className="split">
+                  <input
+                    type="email"
+                    placeholder="Contact email (optional)"
+                    value={newInstructorEmail}
+                    onChange={(event) => setNewInstructorEmail(event.target.value)}
+                  />
+                  <input
+                    type="tel"
+                    placeholder="Contact phone (optional)"
+                    value={newInstructorPhone}
+                    onChange={(event) => setNewInstructorPhone(event.target.value)}
+                  />
+                </div>
+                <textarea
+                  placeholder="Bio (optional)"
+                  value={newInstructorBio}
+                  onChange={(event) => setNewInstructorBio(event.target.value)}
+                  rows={3}
+                />
+                <input
+                  type="text"
+                  placeholder="Account user ID to give them an instructor login (optional)"
+                  value={newInstructorUserId}
+                  onChange={(event) => setNewInstructorUserId(event.target.value)}
+                />
+                <button type="submit" disabled={instructorLoading}>
+                  Add Instructor
+                </button>
+              </form>
+            </section>
+
             <section className="stack">
               <h2>All Classes</h2>
+              {classFilterForm}
               {classesLoading ? (
                 <p>Loading classes...</p>
               ) : adminClasses.length === 0 ? (
-                <p>No classes yet.</p>
+                <p>No classes match.</p>
               ) : (
                 <ul className="class-list">
-                  {adminClasses.map((item) => (
-                    <li key={item.id} className="class-card">
-                      <h3>{item.title}</h3>
-                      <p>{item.description}</p>
-                      <p>
-                        <strong>Instructor:</strong> {item.instructor_name}
-                      </p>
+                  {adminClasses.map((item) =>
+                    editingClassId === item.id && classEdit ? (
+                      <li key={item.id} id={`class-${item.id}`} className="class-card">
+                        <form onSubmit={handleUpdateClass} className="stack">
+                          <input
+                            type="text"
+                            placeholder="Class title"
+                            value={classEdit.title}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, title: event.target.value })
+                            }
+                            required
+                          />
+                          <textarea
+                            placeholder="Class description"
+                            value={classEdit.description}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, description: event.target.value })
+                            }
+                            rows={4}
+                            required
+                          />
+                          <select
+                            value={classEdit.instructorId}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, instructorId: event.target.value })
+                            }
+                          >
+                            <option value="">Instructor without a profile</option>
+                            {instructors.map((instructor) => (
+                              <option key={instructor.id} value={instructor.id}>
+                                {instructor.name}
+                              </option>
+                            ))}
+                          </select>
+                          {!classEdit.instructorId && (
+                            <input
+                              type="text"
+                              placeholder="Instructor name"
+                              value={classEdit.instructorName}
+                              onChange={(event) =>
+                                setClassEdit({ ...classEdit, instructorName: event.target.value })
+                              }
+                              required
+                            />
+                          )}
+                          <select
+                            value={classEdit.venueId}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, venueId: event.target.value })
+                            }
+                          >
+                            <option value="">Other location (not in the venue list)</option>
+                            {venues.map((venue) => (
+                              <option key={venue.id} value={venue.id}>
+                                {venueLabel(venue)} (up to {venue.max_occupancy})
+                              </option>
+                            ))}
+                          </select>
+                          {!classEdit.venueId && (
+                            <input
+                              type="text"
+                              placeholder="Location"
+                              value={classEdit.location}
+                              onChange={(event) =>
+                                setClassEdit({ ...classEdit, location: event.target.value })
+                              }
+                              required
+                            />
+                          )}
+                          <input
+                            type="datetime-local"
+                            value={classEdit.startsAt}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, startsAt: event.target.value })
+                            }
+                            required
+                          />
+                          <input
+                            type="number"
+                            min={15}
+                            max={720}
+                            step={5}
+                            placeholder="Duration (minutes)"
+                            value={classEdit.durationMinutes}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, durationMinutes: event.target.value })
+                            }
+                            required
+                          />
+                          <input
+                            type="number"
+                            min={1}
+                            max={1000}
+                            value={classEdit.capacity}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, capacity: event.target.value })
+                            }
+                            required
+                          />
+                          <div className="split">
+                            <select
+                              value={classEdit.categoryId}
+                              onChange={(event) =>
+                                setClassEdit({ ...classEdit, categoryId: event.target.value })
+                              }
+                            >
+                              <option value="">No category</option>
+                              {categories.map((category) => (
+                                <option key={category.id} value={category.id}>
+                                  {category.name}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={classEdit.skillLevel}
+                              onChange={(event) =>
+                                setClassEdit({
+                                  ...classEdit,
+                                  skillLevel: event.target.value as SkillLevel
+                                })
+                              }
+                            >
+                              {(Object.keys(skillLevelLabels) as SkillLevel[]).map((level) => (
+                                <option key={level} value={level}>
+                                  {skillLevelLabels[level]}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <input
+                            type="text"
+                            placeholder="Tags, comma separated"
+                            value={classEdit.tags}
+                            onChange={(event) =>
+                              setClassEdit({ ...classEdit, tags: event.target.value })
+                            }
+                          />
+                          <div className="split">
+                            <input
+                              type="number"
+                              min={0}
+                              max={120}
+                              placeholder="Minimum age"
+                              value={classEdit.minAge}
+                              onChange={(event) =>
+                                setClassEdit({ ...classEdit, minAge: event.target.value })
+                              }
+                            />
+                            <input
+                              type="number"
+                              min={0}
+                              max={120}
+                              placeholder="Maximum age"
+                              value={classEdit.maxAge}
+                              onChange={(event) =>
+                                setClassEdit({ ...classEdit, maxAge: event.target.value })
+                              }
+                            />
+                          </div>
+                          <div className="toggle-row">
+                            <button type="submit" disabled={adminActionClassId === item.id}>
+                              {adminActionClassId === item.id ? "Saving..." : "Save Changes"}
+                            </button>
+                            <button type="button" className="ghost" onClick={stopEditingClass}>
+                              Discard
+                            </button>
+                          </div>
+                        </form>
+                      </li>
+                    ) : (
+                      <li key={item.id} id={`class-${item.id}`} className="class-card">
+                        <h3>
+                          {item.title}
+                          {item.cancelled_at && <span className="badge">Cancelled</span>}
+                        </h3>
+                        <p>{item.description}</p>
+                        <p>
+                          <strong>Instructor:</strong> {item.instructor_name}
+                        </p>
+                        <p>
+                          <strong>Location:</strong> {item.location}
+                        </p>
+                        <p>
+                          <strong>When:</strong> {formatTimeRange(item)}
+                        </p>
+                        {classDetails(item)}
+                        <p>
+                          <strong>Capacity:</strong> {item.capacity}
+                        </p>
+                        <p>
+                          <strong>Registered:</strong> {item.registrationCount}/{item.capacity}
+                          {item.waitlistCount > 0 && ` (+${item.waitlistCount} waitlisted)`}
+                        </p>
+                        {seriesLabel(item) && <p className="llm-meta">{seriesLabel(item)}</p>}
+                        <div className="toggle-row">
+                          <button
+                            type="button"
+                            className={rosterClassId === item.id ? "active" : "ghost"}
+                            onClick={() => toggleRoster(item.id)}
+                          >
+                            {rosterClassId === item.id ? "Hide Roster" : "Roster"}
+                          </button>
+                          {!item.cancelled_at && (
+                            <>
+                              <button
+                                type="button"
+                                className="ghost"
+                                disabled={adminActionClassId === item.id}
+                                onClick={() => startEditingClass(item)}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                type="button"
+                                className="ghost"
+                                disabled={adminActionClassId === item.id}
+                                onClick={() => handleCancelClass(item.id)}
+                              >
+                                Cancel Class
+                              </button>
+                            </>
+                          )}
+                          <button
+                            type="button"
+                            className="danger"
+                            disabled={adminActionClassId === item.id}
+                            onClick={() => handleDeleteClass(item.id)}
+                          >
+                            Delete
+                          </button>
+                        </div>
+                        {rosterClassId === item.id && rosterPanel(item.id)}
+                      </li>
+                    )
+                  )}
+                </ul>
+              )}
+              {!classesLoading && loadMoreButton}
+            </section>
+          </>
+        ) : currentRole === "instructor" ? (
+          <>
+            <form onSubmit={handleSaveProfile} className="stack">
+              <h2>{instructorProfile?.name ?? "Your Profile"}</h2>
+              <textarea
+                placeholder="Bio shown to members"
+                value={profileBio}
+                onChange={(event) => setProfileBio(event.target.value)}
+                rows={4}
+              />
+              <div className="split">
+                <input
+                  type="email"
+                  placeholder="Contact email"
+                  value={profileEmail}
+                  onChange={(event) => setProfileEmail(event.target.value)}
+                />
+                <input
+                  type="tel"
+                  placeholder="Contact phone"
+                  value={profilePhone}
+                  onChange={(event) => setProfilePhone(event.target.value)}
+                />
+              </div>
+              <button type="submit" disabled={profileLoading}>
+                {profileLoading ? "Saving..." : "Save Profile"}
+              </button>
+            </form>
+
+            <section className="stack">
+              <h2>My Classes</h2>
+              {classFilterForm}
+              {classesLoading ? (
+                <p>Loading classes...</p>
+              ) : instructorClasses.length === 0 ? (
+                <p>No classes are assigned to you yet.</p>
+              ) : (
+                <ul className="class-list">
+                  {instructorClasses.map((item) => (
+                    <li key={item.id} id={`class-${item.id}`} className="class-card">
+                      <h3>
+                        {item.title}
+                        {item.cancelled_at && <span className="badge">Cancelled</span>}
+                      </h3>
+                      {editingClassId === item.id ? (
+                        <form onSubmit={handleSaveDescription} className="stack">
+                          <textarea
+                            value={descriptionDraft}
+                            onChange={(event) => setDescriptionDraft(event.target.value)}
+                            rows={4}
+                            minLength={10}
+                            required
+                          />
+                          <div className="toggle-row">
+                            <button type="submit" disabled={adminActionClassId === item.id}>
+                              {adminActionClassId === item.id ? "Saving..." : "Save"}
+                            </button>
+                            <button
+                              type="button"
+                              className="ghost"
+                              onClick={() => setEditingClassId(null)}
+                            >
+                              Discard
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <p>{item.description}</p>
+                      )}
                       <p>
                         <strong>Location:</strong> {item.location}
                       </p>
                       <p>
-                        <strong>Starts:</strong> {new Date(item.starts_at).toLocaleString()}
+                        <strong>When:</strong> {formatTimeRange(item)}
                       </p>
+                      {classDetails(item)}
                       <p>
-                        <strong>Capacity:</strong> {item.capacity}
+                        <strong>Registered:</strong> {item.registrationCount}/{item.capacity}
+                        {item.waitlistCount > 0 && ` (+${item.waitlistCount} waitlisted)`}
                       </p>
+                      {seriesLabel(item) && <p className="llm-meta">{seriesLabel(item)}</p>}
+                      <div className="toggle-row">
+                        <button
+                          type="button"
+                          className={rosterClassId === item.id ? "active" : "ghost"}
+                          onClick={() => toggleRoster(item.id)}
+                        >
+                          {rosterClassId === item.id ? "Hide Roster" : "Roster"}
+                        </button>
+                        {!item.cancelled_at && editingClassId !== item.id && (
+                          <button
+                            type="button"
+                            className="ghost"
+                            onClick={() => {
+                              setEditingClassId(item.id);
+                              setDescriptionDraft(item.description);
+                            }}
+                          >
+                            Edit Description
+                          </button>
+                        )}
+                      </div>
+                      {rosterClassId === item.id && rosterPanel(item.id)}
                     </li>
                   ))}
                 </ul>
               )}
+              {!classesLoading && loadMoreButton}
             </section>
           </>
         ) : (
           <section className="stack">
+            <div className="calendar-feed">
+              <h2>Calendar Feed</h2>
+              <p>
+                Subscribe in Google, Apple or Outlook calendar to keep your registered classes in
+                sync, including time changes and cancellations.
+              </p>
+              {calendarFeedUrl && (
+                <input
+                  type="text"
+                  readOnly
+                  value={calendarFeedUrl}
+                  onFocus={(event) => event.target.select()}
+                />
+              )}
+              <div className="toggle-row">
+                <button type="button" disabled={calendarFeedLoading} onClick={handleCreateCalendarFeed}>
+                  {calendarFeedActive ? "Reset Feed Link" : "Get Feed Link"}
+                </button>
+                {calendarFeedActive && (
+                  <button
+                    type="button"
+                    className="ghost"
+                    disabled={calendarFeedLoading}
+                    onClick={handleRevokeCalendarFeed}
+                  >
+                    Revoke Link
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="notification-settings">
+              <h2>Email Notifications</h2>
+              <p>Choose which emails you get about the classes you are registered for.</p>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={notifyRegistrations}
+                  disabled={notificationPrefsSaving}
+                  onChange={(event) =>
+                    handleNotificationPreferenceChange("registrationConfirmations", event.target.checked)
+                  }
+                />
+                Registration confirmations
+              </label>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={notifyClassChanges}
+                  disabled={notificationPrefsSaving}
+                  onChange={(event) =>
+                    handleNotificationPreferenceChange("classChanges", event.target.checked)
+                  }
+                />
+                Class changes and cancellations
+              </label>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={notifyReminders}
+                  disabled={notificationPrefsSaving}
+                  onChange={(event) =>
+                    handleNotificationPreferenceChange("classReminders", event.target.checked)
+                  }
+                />
+                Reminders before a class starts
+              </label>
+            </div>
+
             <h2>Available Classes</h2>
+            {classFilterForm}
             {classesLoading ? (
               <p>Loading classes...</p>
             ) : memberClasses.length === 0 ? (
-              <p>No classes are available yet.</p>
+              <p>No classes match.</p>
             ) : (
               <ul className="class-list">
                 {memberClasses.map((item) => {
                   const isFull = item.registrationCount >= item.capacity;
+                  const isWaitlisted = item.waitlistPosition !== null;
+                  const isPending = registeringClassId === item.id;
+                  const seriesId = item.series_id;
                   return (
-                    <li key={item.id} className="class-card">
-                      <h3>{item.title}</h3>
+                    <li key={item.id} id={`class-${item.id}`} className="class-card">
+                      <h3>
+                        {item.title}
+                        {item.cancelled_at && <span className="badge">Cancelled</span>}
+                      </h3>
                       <p>{item.description}</p>
                       <p>
                         <strong>Instructor:</strong> {item.instructor_name}
@@ -531,54 +4811,238 @@ export default function App() {
                         <strong>Location:</strong> {item.location}
                       </p>
                       <p>
-                        <strong>Starts:</strong> {new Date(item.starts_at).toLocaleString()}
+                        <strong>When:</strong> {formatTimeRange(item)}
                       </p>
+                      {classDetails(item)}
                       <p>
                         <strong>Registered:</strong> {item.registrationCount}/{item.capacity}
+                        {item.isRegistered && " (including you)"}
                       </p>
-                      <button
-                        type="button"
-                        disabled={item.isRegistered || isFull || registeringClassId === item.id}
-                        onClick={() => handleRegister(item.id)}
-                      >
-                        {item.isRegistered
-                          ? "Registered"
-                          : isFull
-                            ? "Class Full"
-                            : registeringClassId === item.id
-                              ? "Registering..."
-                              : "Register"}
-                      </button>
+                      {seriesLabel(item) && <p className="llm-meta">{seriesLabel(item)}</p>}
+                      {item.waitlistCount > 0 && (
+                        <p>
+                          <strong>Waitlist:</strong>{" "}
+                          {isWaitlisted
+                            ? `You are #${item.waitlistPosition} of ${item.waitlistCount}`
+                            : `${item.waitlistCount} waiting`}
+                        </p>
+                      )}
+                      {isWaitlisted ? (
+                        <button
+                          type="button"
+                          className="ghost"
+                          disabled={isPending}
+                          onClick={() => handleLeaveWaitlist(item.id)}
+                        >
+                          {isPending ? "Leaving..." : "Leave Waitlist"}
+                        </button>
+                      ) : isFull && !item.isRegistered ? (
+                        <button
+                          type="button"
+                          disabled={isPending}
+                          onClick={() => handleJoinWaitlist(item.id)}
+                        >
+                          {isPending ? "Joining..." : "Join Waitlist"}
+                        </button>
+                      ) : item.isRegistered ? (
+                        <button
+                          type="button"
+                          className="ghost"
+                          disabled={isPending}
+                          onClick={() => handleUnregister(item.id)}
+                        >
+                          {isPending ? "Cancelling..." : "Unregister"}
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          disabled={isPending}
+                          onClick={() => handleRegister(item.id)}
+                        >
+                          {isPending ? "Registering..." : "Register"}
+                        </button>
+                      )}
+                      {item.isRegistered && (
+                        <button
+                          type="button"
+                          className="ghost"
+                          onClick={() => handleDownloadCalendar(item)}
+                        >
+                          Add to Calendar
+                        </button>
+                      )}
+                      {seriesId && !item.cancelled_at && (
+                        <button
+                          type="button"
+                          className="ghost"
+                          disabled={isPending}
+                          onClick={() => handleRegisterSeries(seriesId, item.id)}
+                        >
+                          Register for All Sessions
+                        </button>
+                      )}
                     </li>
                   );
                 })}
               </ul>
             )}
+            {!classesLoading && loadMoreButton}
+          </section>
+        )}
+
+        {accessToken && !passwordRecovery && (
+          <section className="stack">
+            <h2>Account</h2>
+            <form onSubmit={handleChangePassword} className="stack">
+              <input
+                type="password"
+                placeholder="Current password"
+                value={currentPassword}
+                onChange={(event) => setCurrentPassword(event.target.value)}
+                required
+              />
+              <input
+                type="password"
+                placeholder="New password (8+ characters)"
+                value={newPassword}
+                onChange={(event) => setNewPassword(event.target.value)}
+                minLength={8}
+                required
+              />
+              <input
+                type="password"
+                placeholder="Repeat new password"
+                value={confirmPassword}
+                onChange={(event) => setConfirmPassword(event.target.value)}
+                minLength={8}
+                required
+              />
+              <button type="submit" disabled={passwordLoading}>
+                {passwordLoading ? "Saving..." : "Change Password"}
+              </button>
+            </form>
           </section>
         )}
 
         {accessToken && (
           <section className="stack">
             <h2>Ask AI</h2>
+            {llmAllowance && allowanceSummary(llmAllowance) && (
+              <p className="llm-meta">{allowanceSummary(llmAllowance)}</p>
+            )}
+            {conversations.length > 0 && (
+              <ul className="category-list">
+                {conversations.map((conversation) => (
+                  <li key={conversation.id}>
+                    <button
+                      type="button"
+                      className={conversation.id === activeConversationId ? "active" : "ghost"}
+                      disabled={conversationLoading}
+                      onClick={() => openConversation(conversation.id)}
+                    >
+                      {conversation.title}
+                    </button>
+                    <div className="toggle-row">
+                      <button
+                        type="button"
+                        className="ghost"
+                        onClick={() => handleRenameConversation(conversation)}
+                      >
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        className="danger"
+                        onClick={() => handleDeleteConversation(conversation)}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {(chatMessages.length > 0 || llmLoading || llmRefusal) && (
+              <div className="chat-transcript">
+                {chatMessages.map((message) => (
+                  <article key={message.id} className={`llm-answer chat-${message.role}`}>
+                    <p>
+                      {message.role === "assistant"
+                        ? renderChatContent(message.content, message.citations)
+                        : message.content}
+                    </p>
+                    {message.citations.length > 0 && (
+                      <ol className="citations">
+                        {message.citations.map((citation) => (
+                          <li key={citation.id}>
+                            {citationLink(citation, citation.title)}{" "}
+                            <span className="llm-meta">
+                              {new Date(citation.startsAt).toLocaleString()}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    {message.model && <p className="llm-meta">Model: {message.model}</p>}
+                  </article>
+                ))}
+                {llmRefusal && (
+                  <>
+                    <article className="llm-answer chat-user">
+                      <p>{llmRefusal.question}</p>
+                    </article>
+                    <article className="llm-answer chat-assistant chat-refusal">
+                      <p>{llmRefusal.message}</p>
+                    </article>
+                  </>
+                )}
+                {llmLoading && (
+                  <>
+                    <article className="llm-answer chat-user">
+                      <p>{question}</p>
+                    </article>
+                    <article className="llm-answer chat-assistant">
+                      {streamingAnswer ? (
+                        <p>{renderChatContent(streamingAnswer, [])}</p>
+                      ) : (
+                        <p className="llm-meta">Thinking...</p>
+                      )}
+                    </article>
+                  </>
+                )}
+              </div>
+            )}
+
             <form onSubmit={handleAskLlm} className="stack">
               <textarea
-                rows={4}
-                placeholder="Ask anything about your classes, registrations, or next steps..."
+                rows={3}
+                placeholder={
+                  activeConversationId
+                    ? "Ask a follow-up question..."
+                    : "Ask anything about your classes, registrations, or next steps..."
+                }
                 value={question}
                 onChange={(event) => setQuestion(event.target.value)}
+                readOnly={llmLoading}
                 required
               />
-              <button type="submit" disabled={llmLoading}>
-                {llmLoading ? "Thinking..." : "Submit Question"}
-              </button>
+              <div className="toggle-row">
+                <button type="submit" disabled={llmLoading}>
+                  {llmLoading ? "Thinking..." : "Send"}
+                </button>
+                {activeConversationId && (
+                  <button
+                    type="button"
+                    className="ghost"
+                    disabled={llmLoading}
+                    onClick={startNewConversation}
+                  >
+                    New Conversation
+                  </button>
+                )}
+              </div>
             </form>
-
-            {llmAnswer && (
-              <article className="llm-answer">
-                <p>{llmAnswer}</p>
-                {llmModel && <p className="llm-meta">Model: {llmModel}</p>}
-              </article>
-            )}
           </section>
         )}
 